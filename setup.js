@@ -46,9 +46,13 @@ const updateCursorPlugJson = (currentPath) => {
     
     // Use path.join with relative path for cross-platform compatibility
     cursorPlugData.mcpServers['cursorkleo-mcp-server'].args = [
-      path.join(currentPath, 'build', 'index.js')
+      path.join(currentPath, 'build', 'index.js'),
+      '--stdio'
     ];
     
+    // Keep the database next to the server, wherever Cursor starts it from
+    cursorPlugData.mcpServers['cursorkleo-mcp-server'].env.DATABASE_URL = `sqlite:${path.join(currentPath, 'data', 'kleo.db')}`;
+    
     // Generate a new JWT secret
     const secret = generateSecret();
     cursorPlugData.mcpServers['cursorkleo-mcp-server'].env.JWT_SECRET = secret;
@@ -61,8 +65,9 @@ const updateCursorPlugJson = (currentPath) => {
       if (fs.existsSync(path.join(__dirname, '.env.example'))) {
         let envContent = fs.readFileSync(path.join(__dirname, '.env.example'), 'utf8');
         envContent = envContent.replace('your_jwt_secret_key_here', secret);
+        envContent = envContent.replace('# TOKEN_ISSUER_KEY=', `TOKEN_ISSUER_KEY=${generateSecret()}`);
         fs.writeFileSync(path.join(__dirname, '.env'), envContent);
-        console.log('Created .env file with new JWT secret.');
+        console.log('Created .env file with new JWT secret and token issuer key.');
       }
     } catch (envError) {
       console.warn('Warning: Could not create .env file:', envError);
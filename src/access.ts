@@ -0,0 +1,36 @@
+import { Storage } from './storage/index.js';
+import { Client, ProjectRole } from './types.js';
+
+// --- Project Access Control ---
+// Roles, lowest to highest. Each role can do everything the ones below it can.
+//   viewer: follow along, chat and ask the AI
+//   editor: also edit files
+//   owner:  also invite, kick and change roles
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'editor', 'owner'];
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === 'string' && (PROJECT_ROLES as string[]).includes(value);
+}
+
+export function hasRole(role: ProjectRole | undefined, required: ProjectRole): boolean {
+  return role !== undefined && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
+
+// Work out which role a client gets when joining a project, in order of precedence:
+//   1. a role for this project in the token's projectRoles claim
+//   2. the stored membership (from an earlier join or an owner's invite)
+//   3. owner, if the project has no members yet
+//   4. a '*' role in the token's projectRoles claim
+// Returns undefined if the client may not join.
+export async function resolveJoinRole(storage: Storage, client: Client, projectId: string): Promise<ProjectRole | undefined> {
+  const claimed = client.projectRoles?.[projectId];
+  if (claimed) return claimed;
+
+  const member = await storage.getMember(projectId, client.userId);
+  if (member) return member.role;
+
+  // Checked and saved in one step, so of two people joining a new project at once only one owns it
+  if (await storage.addFirstMember({ projectId, userId: client.userId, userName: client.userName, role: 'owner' })) return 'owner';
+
+  return client.projectRoles?.['*'];
+}
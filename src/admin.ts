@@ -0,0 +1,241 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Socket } from 'socket.io';
+import { JwtPayload } from './auth.js';
+import { closeProject, describeProjectUsers, kickFromProject, sessionCount } from './membership.js';
+import { readRecording, recordingQuery, toJsonLines } from './recording.js';
+import { RevocationList } from './revocations.js';
+import { StoredRevocation } from './storage/index.js';
+import { Client, ServerContext } from './types.js';
+
+// --- Admin API ---
+// REST endpoints under /api/admin and the Socket.IO monitoring room, both for
+// holders of a token with the `admin` claim.
+
+export const ADMIN_ROOM = 'admins'; // Socket.IO room that receives live events
+
+export interface AdminOptions {
+  verifyToken(token: string): JwtPayload; // Throws if the token is invalid
+  disconnect(client: Client): void; // Close a connection for good, without a resume window
+  revocations: RevocationList;
+  revoke(revocation: StoredRevocation): Promise<number>; // Returns how many connections were closed here
+  startedAt: number;
+}
+
+// Verify a token and require the admin claim. Throws with a message fit for the caller.
+function verifyAdmin(options: AdminOptions, token: unknown): JwtPayload {
+  if (!token || typeof token !== 'string') {
+    throw new Error('Admin token required');
+  }
+  let payload: JwtPayload;
+  try {
+    payload = options.verifyToken(token);
+  } catch {
+    throw new Error('Invalid admin token');
+  }
+  if (!payload.admin) {
+    throw new Error('Token does not grant admin access');
+  }
+  return payload;
+}
+
+export function adminStats(server: ServerContext, options: AdminOptions) {
+  const clients = Array.from(server.clients.values());
+  return {
+    clients: clients.length,
+    connectedClients: clients.filter((client) => client.ws.readyState === 1).length, // The rest are waiting to resume
+    projects: server.projects.size,
+    nodeId: server.cluster.nodeId, // Counts are for this node; other nodes publish their own
+    nodes: server.cluster.listNodes(),
+    uptimeSeconds: Math.floor((server.now() - options.startedAt) / 1000),
+    timestamp: new Date(server.now()).toISOString()
+  };
+}
+
+// Someone is in the project on this node or another
+function isActive(server: ServerContext, projectId: string): boolean {
+  return server.projects.has(projectId) || server.cluster.remoteSessions(projectId).length > 0;
+}
+
+function describeConnection(client: Client) {
+  return {
+    clientId: client.id,
+    userId: client.userId,
+    userName: client.userName,
+    projectId: client.projectId,
+    role: client.role,
+    connected: client.ws.readyState === 1 // False while waiting to resume
+  };
+}
+
+// Express 4 doesn't catch rejected promises from handlers
+export function asyncRoute(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+export function createAdminRouter(server: ServerContext, options: AdminOptions): express.Router {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    const header = req.headers.authorization;
+    try {
+      res.locals.admin = verifyAdmin(options, header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+      next();
+    } catch (error) {
+      server.metrics.authFailures.inc({ reason: 'admin' });
+      res.status(header ? 403 : 401).json({ error: (error as Error).message });
+    }
+  });
+
+  router.get('/stats', (req, res) => {
+    res.json(adminStats(server, options));
+  });
+
+  // Every project ever joined, with live activity for those in use
+  router.get('/projects', asyncRoute(async (req, res) => {
+    const projectIds = new Set([...(await server.storage.listProjects()), ...server.projects.keys()]);
+    res.json({
+      projects: Array.from(projectIds).map((projectId) => ({
+        projectId,
+        active: isActive(server, projectId),
+        connections: server.projects.get(projectId)?.size ?? 0,
+        remoteConnections: server.cluster.remoteSessions(projectId).length, // On other nodes
+        users: describeProjectUsers(server, projectId).length,
+        openFiles: server.documents.listOpen(projectId).length
+      }))
+    });
+  }));
+
+  router.get('/projects/:projectId', asyncRoute(async (req, res) => {
+    const { projectId } = req.params;
+    const members = await server.storage.listMembers(projectId);
+    if (members.length === 0 && !isActive(server, projectId)) {
+      res.status(404).json({ error: `Project ${projectId} not found` });
+      return;
+    }
+    res.json({
+      projectId,
+      active: isActive(server, projectId),
+      members: members.map((member) => ({
+        userId: member.userId,
+        userName: member.userName,
+        role: member.role,
+        joinedAt: member.joinedAt,
+        lastSeenAt: member.lastSeenAt,
+        sessions: sessionCount(server, projectId, member.userId)
+      })),
+      connections: Array.from(server.projects.get(projectId) ?? [])
+        .map((clientId) => server.clients.get(clientId))
+        .filter((client): client is Client => client !== undefined)
+        .map(describeConnection),
+      remoteConnections: server.cluster.remoteSessions(projectId),
+      openFiles: server.documents.listOpen(projectId).map(({ fileId, revision, clientIds }) => ({ fileId, revision, clientIds }))
+    });
+  }));
+
+  // The project's recorded events as JSON lines, oldest first. Page through with afterSeq.
+  router.get('/projects/:projectId/recording', asyncRoute(async (req, res) => {
+    const { since, until, afterSeq, limit, types } = req.query;
+    const query = recordingQuery({
+      since: typeof since === 'string' ? since : undefined,
+      until: typeof until === 'string' ? until : undefined,
+      afterSeq: typeof afterSeq === 'string' ? Number(afterSeq) : undefined,
+      limit: typeof limit === 'string' ? Number(limit) : undefined,
+      types: typeof types === 'string' ? types.split(',') : undefined
+    });
+    if (typeof query === 'string') {
+      res.status(400).json({ error: query });
+      return;
+    }
+    const page = await readRecording(server.storage, req.params.projectId, query);
+    res.set('X-More-Events', String(page.more));
+    if (page.lastSeq !== undefined) res.set('X-Last-Seq', String(page.lastSeq));
+    res.type('application/x-ndjson').send(toJsonLines(page.events));
+  }));
+
+  // Remove a member and disconnect them from the project, as an owner's project:kick would
+  router.delete('/projects/:projectId/members/:userId', asyncRoute(async (req, res) => {
+    const { projectId, userId } = req.params;
+    if (!(await server.storage.getMember(projectId, userId))) {
+      res.status(404).json({ error: `User ${userId} is not a member of project ${projectId}` });
+      return;
+    }
+    const admin: JwtPayload = res.locals.admin;
+    const sessions = await kickFromProject(server, projectId, userId, admin);
+    server.log.info('Admin kicked user from project', { adminUserId: admin.userId, projectId, kickedUserId: userId });
+    res.json({ success: true, projectId, userId, sessions });
+  }));
+
+  router.post('/projects/:projectId/close', (req, res) => {
+    const { projectId } = req.params;
+    if (!isActive(server, projectId)) {
+      res.status(404).json({ error: `Project ${projectId} is not active` });
+      return;
+    }
+    const admin: JwtPayload = res.locals.admin;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Closed by an administrator';
+    const sessions = closeProject(server, projectId, reason);
+    server.log.info('Admin closed project', { adminUserId: admin.userId, projectId, sessions });
+    res.json({ success: true, projectId, sessions });
+  });
+
+  router.get('/connections', (req, res) => {
+    res.json({ connections: Array.from(server.clients.values()).map(describeConnection) });
+  });
+
+  router.delete('/connections/:clientId', (req, res) => {
+    const client = server.clients.get(req.params.clientId);
+    if (!client) {
+      res.status(404).json({ error: `Connection ${req.params.clientId} not found` });
+      return;
+    }
+    const admin: JwtPayload = res.locals.admin;
+    options.disconnect(client);
+    server.log.info('Admin disconnected client', { adminUserId: admin.userId, connectionId: client.id, userId: client.userId });
+    res.json({ success: true, clientId: client.id });
+  });
+
+  router.get('/revocations', (req, res) => {
+    res.json({ revocations: options.revocations.list() });
+  });
+
+  // Revoke one token by its ID, or every token a user holds now
+  router.post('/revocations', asyncRoute(async (req, res) => {
+    const { jti, userId, reason } = req.body ?? {};
+    if ((jti !== undefined && typeof jti !== 'string') || (userId !== undefined && typeof userId !== 'string') || (!jti && !userId)) {
+      res.status(400).json({ error: 'Give the jti of a token to revoke, or a userId to revoke all of their tokens' });
+      return;
+    }
+    const admin: JwtPayload = res.locals.admin;
+    const revocation: StoredRevocation = {
+      jti: jti || undefined,
+      userId: userId || undefined,
+      revokedAt: new Date(server.now()).toISOString(),
+      reason: typeof reason === 'string' ? reason : `Revoked by ${admin.userId}`
+    };
+    const disconnected = await options.revoke(revocation);
+    server.log.info('Admin revoked tokens', { adminUserId: admin.userId, jti: revocation.jti, revokedUserId: revocation.userId, disconnected });
+    res.json({ success: true, revocation, disconnected });
+  }));
+
+  return router;
+}
+
+// Let a Socket.IO connection join the admin room by sending `admin:auth` with an admin token
+export function handleAdminSocket(socket: Socket, server: ServerContext, options: AdminOptions) {
+  socket.on('admin:auth', (token) => {
+    try {
+      const admin = verifyAdmin(options, token);
+      socket.join(ADMIN_ROOM);
+      server.log.info('Socket.IO client authenticated as admin', { socketId: socket.id, adminUserId: admin.userId });
+      socket.emit('admin:auth_success', { userId: admin.userId, userName: admin.userName });
+      socket.emit('admin:stats', adminStats(server, options));
+    } catch (error) {
+      server.log.warn('Admin authentication failed', { socketId: socket.id, error: (error as Error).message });
+      server.metrics.authFailures.inc({ reason: 'admin' });
+      socket.emit('admin:auth_failure', { error: (error as Error).message });
+      socket.disconnect(true);
+    }
+  });
+}
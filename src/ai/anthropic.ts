@@ -0,0 +1,51 @@
+import { postForStream, readServerSentEvents } from './stream.js';
+import { AiCompletion, AiCompletionRequest, AiProvider, AiProviderConfig, AiUsage } from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4000; // The messages API requires a limit
+
+// Anthropic's messages API
+export class AnthropicProvider implements AiProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(private config: AiProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete(request: AiCompletionRequest, onChunk?: (text: string) => void): Promise<AiCompletion> {
+    const body = await postForStream(`${this.config.baseUrl}/messages`, {
+      model: this.model,
+      system: request.system,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true
+    }, {
+      'x-api-key': this.config.apiKey ?? '',
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json'
+    }, this.config);
+
+    let text = '';
+    const usage: AiUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const event of readServerSentEvents(body, this.config.idleTimeoutMs)) {
+      const parsed = JSON.parse(event.data);
+      if (parsed.type === 'error') {
+        throw new Error(parsed.error?.message || 'Provider reported an error');
+      }
+      if (parsed.type === 'message_start' && parsed.message?.usage) {
+        usage.inputTokens = parsed.message.usage.input_tokens ?? 0;
+        usage.outputTokens = parsed.message.usage.output_tokens ?? 0;
+      }
+      if (parsed.type === 'message_delta' && parsed.usage) {
+        usage.outputTokens = parsed.usage.output_tokens ?? usage.outputTokens; // Running total
+      }
+      if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+        text += parsed.delta.text;
+        onChunk?.(parsed.delta.text);
+      }
+      if (parsed.type === 'message_stop') break;
+    }
+    return { text, model: this.model, usage };
+  }
+}
@@ -0,0 +1,187 @@
+import { Client, ServerContext } from '../types.js';
+
+// --- AI Context Assembly ---
+// Builds the prompt for an AI request from what the server knows about the
+// project: its instructions file, the files the request refers to, the code
+// around each participant's cursor and recent chat. Sources are added in that
+// order of priority until the token budget runs out.
+
+export const PROJECT_INSTRUCTIONS_FILE = 'project_config.md'; // Shared document holding per-project AI instructions
+
+const CHARS_PER_TOKEN = 4; // Rough estimate that holds for English and code
+const CURSOR_CONTEXT_LINES = 20; // Lines either side of a cursor
+const RECENT_CHAT_MESSAGES = 20;
+const MIN_TRUNCATED_TOKENS = 100; // Don't bother including a file cut down to less than this
+
+const BASE_SYSTEM_PROMPT = 'You are a helpful assistant working with a team that is editing a shared codebase together in real time.';
+
+export type ContextSourceKind = 'instructions' | 'file' | 'selection' | 'chat';
+
+export interface ContextSource {
+  kind: ContextSourceKind;
+  fileId?: string;
+  revision?: number;
+  userId?: string; // Whose cursor a selection surrounds
+  lines?: [number, number]; // First and last line of a selection, 0-based
+  messages?: number; // Chat messages included
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface OmittedSource {
+  kind: ContextSourceKind;
+  fileId?: string;
+  userId?: string;
+  reason: 'budget' | 'not_found';
+}
+
+export interface AiContextRequest {
+  prompt?: string;
+  codeSnippet?: string;
+  fileIds: string[]; // Files the request refers to, most important first
+}
+
+export interface AiContext {
+  system: string;
+  question: string; // The request alone, without project context
+  prompt: string; // The request with project context
+  budget: number;
+  usedTokens: number;
+  sources: ContextSource[];
+  omitted: OmittedSource[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function fence(text: string): string {
+  // Use a fence longer than any backtick run in the text
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}\n${text}\n${marker}`;
+}
+
+export async function buildAiContext(server: ServerContext, client: Client, request: AiContextRequest, budget: number): Promise<AiContext> {
+  const projectId = client.projectId!;
+  const sources: ContextSource[] = [];
+  const omitted: OmittedSource[] = [];
+  const sections: string[] = [];
+  let system = BASE_SYSTEM_PROMPT;
+
+  // The request itself is always sent, even if it alone exceeds the budget
+  const question = [
+    request.prompt || (request.codeSnippet ? 'How can I help with this code?' : 'How can I help you?'),
+    request.codeSnippet ? fence(request.codeSnippet) : ''
+  ].filter(Boolean).join('\n\n');
+  let remaining = budget - estimateTokens(system) - estimateTokens(`\n\nRequest:\n${question}`);
+
+  // Project instructions
+  const instructions = server.documents.get(projectId, PROJECT_INSTRUCTIONS_FILE);
+  if (instructions && instructions.content.trim()) {
+    const block = `\n\nProject instructions from ${PROJECT_INSTRUCTIONS_FILE}:\n${instructions.content.trim()}`;
+    const tokens = estimateTokens(block);
+    if (tokens <= remaining) {
+      system += block;
+      remaining -= tokens;
+      sources.push({ kind: 'instructions', fileId: PROJECT_INSTRUCTIONS_FILE, revision: instructions.revision, tokens, truncated: false });
+    } else {
+      omitted.push({ kind: 'instructions', fileId: PROJECT_INSTRUCTIONS_FILE, reason: 'budget' });
+    }
+  }
+
+  // Files the request refers to, cut short if needed
+  const includedFiles = new Set<string>();
+  for (const fileId of request.fileIds) {
+    const document = server.documents.get(projectId, fileId);
+    if (!document) {
+      omitted.push({ kind: 'file', fileId, reason: 'not_found' });
+      continue;
+    }
+    const header = `File ${fileId} (revision ${document.revision}):\n`;
+    let content = document.content;
+    let truncated = false;
+    if (estimateTokens(header + fence(content)) > remaining) {
+      const available = (remaining - estimateTokens(header + fence(''))) * CHARS_PER_TOKEN;
+      if (available < MIN_TRUNCATED_TOKENS * CHARS_PER_TOKEN) {
+        omitted.push({ kind: 'file', fileId, reason: 'budget' });
+        continue;
+      }
+      content = content.slice(0, available - 20) + '\n... (truncated)';
+      truncated = true;
+    }
+    const section = header + fence(content);
+    const tokens = estimateTokens(section);
+    sections.push(section);
+    remaining -= tokens;
+    if (!truncated) includedFiles.add(fileId);
+    sources.push({ kind: 'file', fileId, revision: document.revision, tokens, truncated });
+  }
+
+  // Code around each participant's cursor, the requester's first
+  const participants = Array.from(server.projects.get(projectId) ?? [])
+    .map((clientId) => server.clients.get(clientId))
+    .filter((participant): participant is Client => participant?.presence?.fileId !== undefined && participant.presence.cursor !== undefined)
+    .sort((a, b) => (a.id === client.id ? -1 : b.id === client.id ? 1 : 0));
+  const seenSelections = new Set<string>();
+  for (const participant of participants) {
+    const fileId = participant.presence!.fileId!;
+    const position = participant.presence!.cursor!;
+    const document = server.documents.get(projectId, fileId);
+    if (!document || includedFiles.has(fileId)) continue; // Already have the whole file
+
+    const lines = document.content.split('\n');
+    const first = Math.max(0, Math.min(position.line, lines.length - 1) - CURSOR_CONTEXT_LINES);
+    const last = Math.min(lines.length - 1, position.line + CURSOR_CONTEXT_LINES);
+    const key = `${fileId}:${first}:${last}`;
+    if (seenSelections.has(key)) continue;
+    seenSelections.add(key);
+
+    const who = participant.id === client.id ? 'my cursor' : `${participant.userName}'s cursor`;
+    const section = `File ${fileId} lines ${first + 1}-${last + 1} around ${who} (line ${position.line + 1}):\n`
+      + fence(lines.slice(first, last + 1).join('\n'));
+    const tokens = estimateTokens(section);
+    if (tokens > remaining) {
+      omitted.push({ kind: 'selection', fileId, userId: participant.userId, reason: 'budget' });
+      continue;
+    }
+    sections.push(section);
+    remaining -= tokens;
+    sources.push({ kind: 'selection', fileId, revision: document.revision, userId: participant.userId, lines: [first, last], tokens, truncated: false });
+  }
+
+  // Recent chat, dropping the oldest messages until it fits
+  const chat = (await server.storage.listChatMessages(projectId, { limit: RECENT_CHAT_MESSAGES }))
+    .filter((message) => !message.deletedAt)
+    .map((message) => `${message.userName}: ${message.message}`);
+  if (chat.length > 0) {
+    const total = chat.length;
+    let section = '';
+    while (chat.length > 0) {
+      section = `Recent project chat:\n${chat.join('\n')}`;
+      if (estimateTokens(section) <= remaining) break;
+      chat.shift();
+    }
+    if (chat.length > 0) {
+      const tokens = estimateTokens(section);
+      sections.push(section);
+      remaining -= tokens;
+      sources.push({ kind: 'chat', messages: chat.length, tokens, truncated: chat.length < total });
+    } else {
+      omitted.push({ kind: 'chat', reason: 'budget' });
+    }
+  }
+
+  const prompt = sections.length > 0
+    ? `${sections.join('\n\n')}\n\nRequest:\n${question}`
+    : question;
+  return {
+    system,
+    question,
+    prompt,
+    budget,
+    usedTokens: estimateTokens(system) + estimateTokens(prompt),
+    sources,
+    omitted
+  };
+}
@@ -0,0 +1,59 @@
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAiCompatibleProvider } from './openai.js';
+import { AiProviderRegistry } from './registry.js';
+
+export * from './types.js';
+export * from './registry.js';
+export { AnthropicProvider, OpenAiCompatibleProvider };
+
+type Env = Record<string, string | undefined>;
+
+function optionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value, 10) : undefined;
+}
+
+function baseUrl(value: string | undefined, fallback: string): string {
+  return (value || fallback).replace(/\/+$/, '');
+}
+
+// Register a provider for every service configured in the environment:
+//   openai     OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL, OPENAI_MAX_TOKENS
+//   anthropic  ANTHROPIC_API_KEY, ANTHROPIC_MODEL, ANTHROPIC_BASE_URL, ANTHROPIC_MAX_TOKENS
+//   local      LOCAL_AI_BASE_URL, LOCAL_AI_MODEL, LOCAL_AI_API_KEY, LOCAL_AI_MAX_TOKENS
+//              (any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1)
+// AI_DEFAULT_PROVIDER picks the provider used when a request doesn't name one.
+export function createAiProviders(env: Env = process.env): AiProviderRegistry {
+  const registry = new AiProviderRegistry();
+
+  if (env.OPENAI_API_KEY) {
+    registry.register(new OpenAiCompatibleProvider('openai', {
+      baseUrl: baseUrl(env.OPENAI_BASE_URL, 'https://api.openai.com/v1'),
+      model: env.OPENAI_MODEL || 'gpt-4o',
+      apiKey: env.OPENAI_API_KEY,
+      maxTokens: optionalInt(env.OPENAI_MAX_TOKENS)
+    }));
+  }
+
+  if (env.ANTHROPIC_API_KEY) {
+    registry.register(new AnthropicProvider({
+      baseUrl: baseUrl(env.ANTHROPIC_BASE_URL, 'https://api.anthropic.com/v1'),
+      model: env.ANTHROPIC_MODEL || 'claude-3-opus-20240229',
+      apiKey: env.ANTHROPIC_API_KEY,
+      maxTokens: optionalInt(env.ANTHROPIC_MAX_TOKENS)
+    }));
+  }
+
+  if (env.LOCAL_AI_BASE_URL) {
+    registry.register(new OpenAiCompatibleProvider('local', {
+      baseUrl: baseUrl(env.LOCAL_AI_BASE_URL, ''),
+      model: env.LOCAL_AI_MODEL || 'llama3',
+      apiKey: env.LOCAL_AI_API_KEY,
+      maxTokens: optionalInt(env.LOCAL_AI_MAX_TOKENS)
+    }));
+  }
+
+  if (env.AI_DEFAULT_PROVIDER) {
+    registry.setDefault(env.AI_DEFAULT_PROVIDER);
+  }
+  return registry;
+}
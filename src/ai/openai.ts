@@ -0,0 +1,51 @@
+import { postForStream, readServerSentEvents } from './stream.js';
+import { AiCompletion, AiCompletionRequest, AiProvider, AiProviderConfig, AiUsage } from './types.js';
+
+// OpenAI's chat completions API, also spoken by local servers such as Ollama
+// (http://localhost:11434/v1), LM Studio and vLLM
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly model: string;
+
+  constructor(readonly name: string, private config: AiProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete(request: AiCompletionRequest, onChunk?: (text: string) => void): Promise<AiCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+    const maxTokens = request.maxTokens ?? this.config.maxTokens;
+
+    const body = await postForStream(`${this.config.baseUrl}/chat/completions`, {
+      model: this.model,
+      messages,
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      stream: true,
+      stream_options: { include_usage: true } // Token counts arrive in a final chunk
+    }, headers, this.config);
+
+    let text = '';
+    let usage: AiUsage | undefined;
+    for await (const event of readServerSentEvents(body, this.config.idleTimeoutMs)) {
+      if (event.data === '[DONE]') break;
+      const parsed = JSON.parse(event.data);
+      if (parsed.error) {
+        throw new Error(parsed.error.message || 'Provider reported an error');
+      }
+      if (parsed.usage) {
+        usage = { inputTokens: parsed.usage.prompt_tokens ?? 0, outputTokens: parsed.usage.completion_tokens ?? 0 };
+      }
+      const piece: string | undefined = parsed.choices?.[0]?.delta?.content;
+      if (piece) {
+        text += piece;
+        onChunk?.(piece);
+      }
+    }
+    return { text, model: this.model, usage };
+  }
+}
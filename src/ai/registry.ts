@@ -0,0 +1,43 @@
+import { AiProvider } from './types.js';
+
+export interface AiProviderSummary {
+  name: string;
+  model: string;
+  isDefault: boolean;
+}
+
+// Configured AI providers by name. The first one registered is the default
+// unless another is chosen.
+export class AiProviderRegistry {
+  private providers = new Map<string, AiProvider>();
+  private defaultName?: string;
+
+  register(provider: AiProvider) {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`AI provider '${provider.name}' is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+    this.defaultName ??= provider.name;
+  }
+
+  setDefault(name: string) {
+    if (!this.providers.has(name)) {
+      throw new Error(`AI provider '${name}' is not configured`);
+    }
+    this.defaultName = name;
+  }
+
+  // The named provider, or the default one if no name is given
+  get(name?: string): AiProvider | undefined {
+    const providerName = name ?? this.defaultName;
+    return providerName ? this.providers.get(providerName) : undefined;
+  }
+
+  list(): AiProviderSummary[] {
+    return Array.from(this.providers.values()).map((provider) => ({
+      name: provider.name,
+      model: provider.model,
+      isDefault: provider.name === this.defaultName
+    }));
+  }
+}
@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { AiProviderConfig } from './types.js';
+
+// --- Server-Sent Events ---
+// Both OpenAI and Anthropic stream completions as SSE over a POST response.
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_IDLE_TIMEOUT_MS = 60000;
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+// POST a request and return its streamed response body. Fails if the response
+// doesn't start within the provider's timeout.
+export async function postForStream(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  config: AiProviderConfig
+): Promise<Readable> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await axios.post<Readable>(url, body, { headers, responseType: 'stream', signal: controller.signal });
+    return response.data;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`The provider did not respond within ${timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Yield each event from an SSE response body as it arrives. The body is
+// destroyed, failing the read, if nothing arrives for `idleTimeoutMs`.
+export async function* readServerSentEvents(body: Readable, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS): AsyncGenerator<ServerSentEvent> {
+  const decoder = new StringDecoder('utf8'); // Holds back characters split across chunks
+  let buffered = '';
+  let event: string | undefined;
+  let data: string[] = [];
+  let idle: NodeJS.Timeout | undefined;
+  const awaitData = () => {
+    clearTimeout(idle);
+    idle = setTimeout(() => body.destroy(new Error(`The provider stopped responding for ${idleTimeoutMs / 1000} seconds`)), idleTimeoutMs);
+  };
+
+  try {
+    awaitData();
+    for await (const chunk of body) {
+      awaitData();
+      buffered += decoder.write(chunk);
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop()!; // Last line may be incomplete
+
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line ends the event
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+        // Comments (":") and other fields are ignored
+      }
+    }
+
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+  } finally {
+    clearTimeout(idle);
+  }
+}
+
+// Best available message for a failed provider request. Error bodies arrive as
+// streams too, since every request asks for a streamed response.
+export async function describeProviderError(error: unknown): Promise<string> {
+  const fallback = error instanceof Error ? error.message : 'Unknown error';
+  const body: unknown = axios.isAxiosError(error) ? error.response?.data : undefined;
+  if (body instanceof Readable) {
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    try {
+      for await (const chunk of body) text += decoder.write(chunk);
+      text += decoder.end();
+      return providerMessage(JSON.parse(text)) || text;
+    } catch {
+      return text || fallback;
+    }
+  }
+  return providerMessage(body) || fallback;
+}
+
+// The message in an `{ "error": { "message": ... } }` body, as both providers send
+function providerMessage(body: unknown): string | undefined {
+  if (typeof body !== 'object' || body === null || !('error' in body)) return undefined;
+  const { error } = body;
+  if (typeof error !== 'object' || error === null || !('message' in error)) return undefined;
+  return typeof error.message === 'string' ? error.message : undefined;
+}
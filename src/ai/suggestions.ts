@@ -0,0 +1,20 @@
+// --- Code Suggestions ---
+// Fenced code blocks in an AI reply are offered as suggestions that can be
+// applied to a shared file with ai:apply_suggestion.
+
+export interface AiSuggestion {
+  index: number; // Position among the reply's code blocks
+  language?: string; // From the fence's info string, e.g. ```ts
+  code: string;
+}
+
+const FENCED_BLOCK = /^(`{3,}|~{3,})[ \t]*([^\n`]*)\n([\s\S]*?)\n?^\1[ \t]*$/gm;
+
+export function extractSuggestions(content: string): AiSuggestion[] {
+  const suggestions: AiSuggestion[] = [];
+  for (const match of content.matchAll(FENCED_BLOCK)) {
+    const language = match[2].trim().split(/\s+/)[0];
+    suggestions.push({ index: suggestions.length, language: language || undefined, code: match[3] });
+  }
+  return suggestions;
+}
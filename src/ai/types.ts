@@ -0,0 +1,41 @@
+// --- AI Providers ---
+// A provider turns a conversation into a completion, streaming the text as it
+// is generated. Each configured provider has its own model, key and base URL.
+
+export interface AiMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AiCompletionRequest {
+  system?: string; // Instructions for the assistant
+  messages: AiMessage[];
+  maxTokens?: number; // Overrides the provider's configured limit
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiCompletion {
+  text: string;
+  model: string;
+  usage?: AiUsage; // As reported by the provider, if it did
+}
+
+export interface AiProvider {
+  readonly name: string;
+  readonly model: string;
+  // Resolves with the full text once generation ends; onChunk receives each piece as it arrives
+  complete(request: AiCompletionRequest, onChunk?: (text: string) => void): Promise<AiCompletion>;
+}
+
+export interface AiProviderConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  model: string;
+  apiKey?: string; // Optional for local OpenAI-compatible servers
+  maxTokens?: number;
+  timeoutMs?: number; // How long to wait for the response to start (default 30 seconds)
+  idleTimeoutMs?: number; // Longest wait for the next piece of a streamed response (default 60 seconds)
+}
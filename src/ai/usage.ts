@@ -0,0 +1,49 @@
+import { RateLimited } from '../limits.js';
+import { AiUsageTotal, Storage } from '../storage/index.js';
+import { Client } from '../types.js';
+
+// --- AI Quotas ---
+// Tokens spent on AI requests count against daily quotas per user (across all
+// projects) and per project. Days start at midnight UTC.
+
+export interface AiQuotas {
+  userDailyTokens: number; // 0 for no limit
+  projectDailyTokens: number;
+}
+
+export interface DailyAiUsage {
+  since: string;
+  tokens: number; // Input and output together
+  byModel: AiUsageTotal[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfUtcDay(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS;
+}
+
+export async function dailyAiUsage(storage: Storage, filter: { projectId?: string; userId?: string }, now: number): Promise<DailyAiUsage> {
+  const since = new Date(startOfUtcDay(now)).toISOString();
+  const byModel = await storage.summarizeAiUsage({ ...filter, since });
+  const tokens = byModel.reduce((total, entry) => total + entry.inputTokens + entry.outputTokens, 0);
+  return { since, tokens, byModel };
+}
+
+// Returns which quota the client has used up today, if any
+export async function checkAiQuota(storage: Storage, client: Client, quotas: AiQuotas, now: number): Promise<RateLimited | undefined> {
+  const retryAfterMs = startOfUtcDay(now) + DAY_MS - now;
+  if (quotas.userDailyTokens > 0) {
+    const usage = await dailyAiUsage(storage, { userId: client.userId }, now);
+    if (usage.tokens >= quotas.userDailyTokens) {
+      return { limit: 'ai_daily_tokens', scope: 'user', retryAfterMs };
+    }
+  }
+  if (quotas.projectDailyTokens > 0 && client.projectId) {
+    const usage = await dailyAiUsage(storage, { projectId: client.projectId }, now);
+    if (usage.tokens >= quotas.projectDailyTokens) {
+      return { limit: 'ai_daily_tokens', scope: 'project', retryAfterMs };
+    }
+  }
+  return undefined;
+}
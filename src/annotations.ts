@@ -0,0 +1,173 @@
+import { DocumentRevision, LoadedDocument, MAX_HISTORY, transformIndex } from './documents.js';
+import type { AnnotationPayload } from './protocol.js';
+import { StoredAnnotation, StoredAnnotationReply } from './storage/index.js';
+
+// --- Review Annotations ---
+// Comments anchored to a range of a file, with replies, that can be resolved.
+// Anchors are character offsets into the server copy of the file. Every change
+// to the file moves them the same way it moves the text around them, so an
+// annotation keeps pointing at the lines it was made on.
+
+// Called after an annotation is added, replied to, resolved or moved, e.g. to persist it
+export type AnnotationChangeListener = (annotation: StoredAnnotation) => void;
+
+// Characters [start, end) covering lines startLine to endLine (0-based, inclusive),
+// without the last line's line break. Returns undefined if the lines aren't in the text.
+export function lineRange(content: string, startLine: number, endLine: number): { start: number; end: number } | undefined {
+  const starts = [0];
+  for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+    starts.push(index + 1);
+  }
+  if (startLine > endLine || endLine >= starts.length) return undefined;
+  const end = endLine + 1 < starts.length ? starts[endLine + 1] - 1 : content.length;
+  return { start: starts[startLine], end };
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 0;
+  for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+    line += 1;
+  }
+  return line;
+}
+
+// An annotation as sent to clients, with its anchor as lines of the current text
+export function describeAnnotation(annotation: StoredAnnotation, content: string): AnnotationPayload {
+  const start = Math.min(annotation.start, content.length);
+  const end = Math.min(Math.max(annotation.end, start), content.length);
+  return {
+    id: annotation.id,
+    fileId: annotation.fileId,
+    startLine: lineAt(content, start),
+    endLine: lineAt(content, end),
+    start,
+    end,
+    revision: annotation.revision,
+    userId: annotation.userId,
+    userName: annotation.userName,
+    body: annotation.body,
+    createdAt: annotation.createdAt,
+    resolvedAt: annotation.resolvedAt,
+    resolvedBy: annotation.resolvedBy,
+    resolvedByName: annotation.resolvedByName,
+    replies: annotation.replies.map((reply) => ({ ...reply }))
+  };
+}
+
+// Move an anchor over one change. Text inserted right at either end moves that end past it;
+// if the annotated text is deleted, the anchor collapses to where it was.
+function moveAnchor(annotation: StoredAnnotation, change: DocumentRevision): boolean {
+  const start = transformIndex(change.ops, annotation.start);
+  const end = Math.max(transformIndex(change.ops, annotation.end), start);
+  const moved = start !== annotation.start || end !== annotation.end;
+  annotation.start = start;
+  annotation.end = end;
+  annotation.revision = change.revision;
+  return moved;
+}
+
+export class AnnotationStore {
+  private projects = new Map<string, Map<string, StoredAnnotation>>(); // projectId -> annotationId -> annotation, oldest first
+  private savedRevisions = new Map<string, number>(); // annotationId -> revision its anchor was last saved at
+
+  constructor(private onChange?: AnnotationChangeListener, private now: () => number = Date.now) {}
+
+  // Restore saved annotations for a project along with its documents. Anchors
+  // saved before the latest changes to their file are moved over the changes
+  // still in the file's history. An anchor saved before the oldest of those
+  // can't be followed and stays where it was.
+  loadProject(projectId: string, stored: StoredAnnotation[], documents: LoadedDocument[]) {
+    if (this.projects.has(projectId)) return;
+    const annotations = new Map<string, StoredAnnotation>();
+    for (const annotation of stored) {
+      this.savedRevisions.set(annotation.id, annotation.revision);
+      const document = documents.find((document) => document.fileId === annotation.fileId);
+      if (document && document.revision > annotation.revision) {
+        const missed = document.history.filter((change) => change.revision > annotation.revision);
+        if (missed.length > 0 && missed[0].revision === annotation.revision + 1) {
+          missed.forEach((change) => moveAnchor(annotation, change));
+        } else {
+          annotation.revision = document.revision;
+        }
+      }
+      annotations.set(annotation.id, annotation);
+    }
+    this.projects.set(projectId, annotations);
+  }
+
+  // Annotations in a project, optionally only those on one file, oldest first
+  list(projectId: string, fileId?: string): StoredAnnotation[] {
+    return Array.from(this.projects.get(projectId)?.values() ?? [])
+      .filter((annotation) => fileId === undefined || annotation.fileId === fileId);
+  }
+
+  get(projectId: string, annotationId: string): StoredAnnotation | undefined {
+    return this.projects.get(projectId)?.get(annotationId);
+  }
+
+  add(annotation: StoredAnnotation) {
+    let annotations = this.projects.get(annotation.projectId);
+    if (!annotations) {
+      annotations = new Map();
+      this.projects.set(annotation.projectId, annotations);
+    }
+    annotations.set(annotation.id, annotation);
+    this.save(annotation);
+  }
+
+  reply(annotation: StoredAnnotation, reply: StoredAnnotationReply) {
+    annotation.replies.push(reply);
+    this.save(annotation);
+  }
+
+  // Mark an annotation resolved by a user, or reopen it
+  resolve(annotation: StoredAnnotation, resolvedBy?: { userId: string; userName: string }) {
+    annotation.resolvedAt = resolvedBy && new Date(this.now()).toISOString();
+    annotation.resolvedBy = resolvedBy?.userId;
+    annotation.resolvedByName = resolvedBy?.userName;
+    this.save(annotation);
+  }
+
+  // Move the anchors on a file over a change to it. Moved anchors are saved;
+  // replaying history from an older revision gives the same offsets for the
+  // rest, as long as that revision is still in the history. Anchors are saved
+  // again well before it drops out.
+  applyChange(projectId: string, fileId: string, change: DocumentRevision) {
+    this.projects.get(projectId)?.forEach((annotation) => {
+      if (annotation.fileId !== fileId) return;
+      const moved = moveAnchor(annotation, change);
+      if (moved || change.revision - (this.savedRevisions.get(annotation.id) ?? 0) >= MAX_HISTORY / 2) {
+        this.save(annotation);
+      }
+    });
+  }
+
+  // Follow a renamed file. Storage moves saved annotations itself.
+  renameFile(projectId: string, fileId: string, newFileId: string) {
+    this.projects.get(projectId)?.forEach((annotation) => {
+      if (annotation.fileId === fileId) annotation.fileId = newFileId;
+    });
+  }
+
+  // Drop the annotations on a deleted file. Storage deletes saved annotations itself.
+  deleteFile(projectId: string, fileId: string) {
+    const annotations = this.projects.get(projectId);
+    annotations?.forEach((annotation, id) => {
+      if (annotation.fileId === fileId) {
+        annotations.delete(id);
+        this.savedRevisions.delete(id);
+      }
+    });
+  }
+
+  // Drop a project's annotations from memory (e.g. when the last member leaves)
+  closeProject(projectId: string) {
+    this.projects.get(projectId)?.forEach((_annotation, id) => this.savedRevisions.delete(id));
+    this.projects.delete(projectId);
+  }
+
+  private save(annotation: StoredAnnotation) {
+    this.savedRevisions.set(annotation.id, annotation.revision);
+    this.onChange?.(annotation);
+  }
+}
@@ -0,0 +1,164 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { isProjectRole } from './access.js';
+import { ProjectRole } from './types.js';
+
+// --- Access Tokens ---
+// Clients connect with an access token. The server issues short-lived access
+// tokens together with refresh tokens that trade in for fresh pairs; both are
+// signed with JWT_SECRET (HS256). Tokens from an SSO can be signed with an RSA
+// or EC key instead, given as a PEM public key or a JWKS file.
+
+export interface JwtPayload {
+  userId: string;
+  userName: string;
+  projectRoles?: Record<string, ProjectRole>; // Role per project ID; '*' applies to projects without an entry
+  admin?: boolean; // May use the admin API and monitoring
+  typ?: 'refresh'; // Set on refresh tokens, which only /api/auth/refresh accepts
+  jti?: string; // Token ID, which revocations refer to
+  iat?: number; // Issued at
+  exp?: number; // Expiration time
+}
+
+// What an issued token says about its holder
+export type TokenClaims = Pick<JwtPayload, 'userId' | 'userName' | 'projectRoles' | 'admin'>;
+
+// The token verified but its claims are unusable
+export class InvalidTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+// A key tokens may be signed with, and the one algorithm it is accepted for
+export interface VerificationKey {
+  kid?: string; // Matched against the token's `kid` header when both are set
+  key: string | KeyObject;
+  algorithm: jwt.Algorithm;
+}
+
+function asymmetricAlgorithm(key: KeyObject): jwt.Algorithm {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256';
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') return 'ES256';
+  throw new Error(`Unsupported public key type '${key.asymmetricKeyType}'. Use an RSA key (RS256) or a P-256 EC key (ES256)`);
+}
+
+// Keys accepted for access tokens: the shared secret, plus an optional PEM
+// public key and the signing keys in an optional JWKS file. Throws if a key is unusable.
+export function loadVerificationKeys(secret: string, publicKeyPem?: string, jwksFile?: string): VerificationKey[] {
+  const keys: VerificationKey[] = [{ key: secret, algorithm: 'HS256' }];
+
+  if (publicKeyPem) {
+    const key = crypto.createPublicKey(publicKeyPem.replace(/\\n/g, '\n')); // Allow \n escapes from .env files
+    keys.push({ key, algorithm: asymmetricAlgorithm(key) });
+  }
+
+  if (jwksFile) {
+    const jwks = JSON.parse(fs.readFileSync(jwksFile, 'utf8'));
+    if (!Array.isArray(jwks?.keys)) {
+      throw new Error(`${jwksFile} is not a JWKS file: expected a "keys" array`);
+    }
+    for (const jwk of jwks.keys) {
+      if (jwk.use !== undefined && jwk.use !== 'sig') continue; // Encryption keys
+      const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      keys.push({ kid: jwk.kid, key, algorithm: asymmetricAlgorithm(key) });
+    }
+  }
+
+  return keys;
+}
+
+// Verify a token's signature and expiry against whichever keys match its header
+function verifySignature(token: string, keys: VerificationKey[], now: number): JwtPayload {
+  const header = jwt.decode(token, { complete: true })?.header;
+  if (!header) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+  const candidates = keys.filter((key) => key.algorithm === header.alg && (!header.kid || !key.kid || key.kid === header.kid));
+  if (candidates.length === 0) {
+    throw new jwt.JsonWebTokenError(`No key for ${header.alg} tokens${header.kid ? ` with kid '${header.kid}'` : ''}`);
+  }
+
+  let lastError: unknown;
+  for (const { key, algorithm } of candidates) {
+    try {
+      return jwt.verify(token, key, { algorithms: [algorithm], clockTimestamp: Math.floor(now / 1000) }) as JwtPayload;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+// Check the claims every token needs
+function checkClaims(decoded: JwtPayload) {
+  // Basic validation of payload
+  if (!decoded.userId || !decoded.userName) {
+    throw new InvalidTokenError('Invalid token payload: missing userId or userName');
+  }
+
+  if (decoded.projectRoles !== undefined && (
+    typeof decoded.projectRoles !== 'object' || !Object.values(decoded.projectRoles).every(isProjectRole)
+  )) {
+    throw new InvalidTokenError('Invalid token payload: projectRoles must map project IDs to owner, editor or viewer');
+  }
+
+  if (decoded.admin !== undefined && typeof decoded.admin !== 'boolean') {
+    throw new InvalidTokenError('Invalid token payload: admin must be true or false');
+  }
+}
+
+// Verify an access token's signature and expiry as of `now`, then check its claims
+export function verifyToken(token: string, keys: VerificationKey[], now = Date.now()): JwtPayload {
+  const decoded = verifySignature(token, keys, now);
+  checkClaims(decoded);
+  if (decoded.typ === 'refresh') {
+    throw new InvalidTokenError('Refresh tokens cannot be used to connect; exchange them at /api/auth/refresh');
+  }
+  return decoded;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // Seconds until the access token expires
+  refreshExpiresIn: number; // Seconds until the refresh token expires
+}
+
+// Signs access and refresh tokens with the shared secret
+export class TokenIssuer {
+  constructor(
+    private secret: string,
+    private accessTtlMs: number,
+    private refreshTtlMs: number,
+    private now: () => number = Date.now
+  ) {}
+
+  issue(claims: TokenClaims): IssuedTokens {
+    const { userId, userName, projectRoles, admin } = claims;
+    const payload = { userId, userName, projectRoles, admin, iat: Math.floor(this.now() / 1000) };
+    const expiresIn = Math.floor(this.accessTtlMs / 1000);
+    const refreshExpiresIn = Math.floor(this.refreshTtlMs / 1000);
+    return {
+      accessToken: jwt.sign(payload, this.secret, { expiresIn, jwtid: uuidv4() }),
+      refreshToken: jwt.sign({ ...payload, typ: 'refresh' }, this.secret, { expiresIn: refreshExpiresIn, jwtid: uuidv4() }),
+      tokenType: 'Bearer',
+      expiresIn,
+      refreshExpiresIn
+    };
+  }
+
+  // Refresh tokens only ever come from this server, so only the shared secret is accepted
+  verifyRefreshToken(token: string): JwtPayload {
+    const decoded = jwt.verify(token, this.secret, { algorithms: ['HS256'], clockTimestamp: Math.floor(this.now() / 1000) }) as JwtPayload;
+    checkClaims(decoded);
+    if (decoded.typ !== 'refresh' || !decoded.jti) {
+      throw new InvalidTokenError('Not a refresh token');
+    }
+    return decoded;
+  }
+}
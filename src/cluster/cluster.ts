@@ -0,0 +1,136 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../logger.js';
+import { ClusterEnvelope, ClusterEvent, ClusterSession, PubSub } from './types.js';
+
+// --- Cluster ---
+// Server nodes share project events over pub/sub. Each node regularly
+// publishes the sessions it holds, which doubles as its heartbeat; a node that
+// misses heartbeats for too long is presumed dead and its sessions are dropped.
+
+const CHANNEL = 'kleo:cluster';
+
+export interface ClusterOptions {
+  heartbeatMs: number;
+  nodeTimeoutMs: number; // Silence after which a node is presumed dead
+  localSessions: () => ClusterSession[]; // Sessions in projects on this node
+  onEvent: (event: ClusterEnvelope) => void; // Broadcast, user and admin events from other nodes
+  onNodeLost: (nodeId: string, sessions: ClusterSession[]) => void; // Called after the sessions are dropped
+  log: Logger;
+}
+
+interface RemoteNode {
+  lastSeenAt: number;
+  sessions: ClusterSession[];
+}
+
+export class Cluster {
+  readonly nodeId = uuidv4();
+  private nodes = new Map<string, RemoteNode>();
+  private heartbeat?: NodeJS.Timeout;
+  private announcing = false;
+
+  constructor(private pubsub: PubSub, private options: ClusterOptions) {}
+
+  async start() {
+    await this.pubsub.subscribe(CHANNEL, (message) => this.receive(message));
+    this.announce();
+    this.heartbeat = setInterval(() => {
+      this.announce();
+      this.expireNodes();
+    }, this.options.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  publish(event: ClusterEvent) {
+    const envelope: ClusterEnvelope = { ...event, nodeId: this.nodeId };
+    this.pubsub.publish(CHANNEL, JSON.stringify(envelope)).catch((error) => {
+      this.options.log.warn('Could not publish cluster event', { type: event.type, error: error.message });
+    });
+  }
+
+  // Tell other nodes about this node's sessions. Changes in the same tick are sent together.
+  announce() {
+    if (this.announcing) return;
+    this.announcing = true;
+    setImmediate(() => {
+      this.announcing = false;
+      this.publish({ type: 'presence', sessions: this.options.localSessions() });
+    });
+  }
+
+  // Sessions in a project on other nodes
+  remoteSessions(projectId: string): ClusterSession[] {
+    const sessions: ClusterSession[] = [];
+    this.nodes.forEach((node) => {
+      node.sessions.forEach((session) => {
+        if (session.projectId === projectId) sessions.push(session);
+      });
+    });
+    return sessions;
+  }
+
+  // Other nodes that are alive, as far as this one knows
+  listNodes(): { nodeId: string; lastSeenAt: string; sessions: number }[] {
+    return Array.from(this.nodes.entries()).map(([nodeId, node]) => ({
+      nodeId,
+      lastSeenAt: new Date(node.lastSeenAt).toISOString(),
+      sessions: node.sessions.length
+    }));
+  }
+
+  async close() {
+    clearInterval(this.heartbeat);
+    await this.pubsub.publish(CHANNEL, JSON.stringify({ type: 'leave', nodeId: this.nodeId })).catch(() => {});
+    await this.pubsub.close();
+  }
+
+  private receive(raw: string) {
+    let envelope: ClusterEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      this.options.log.warn('Ignoring unreadable cluster event');
+      return;
+    }
+    if (envelope.nodeId === this.nodeId) return;
+
+    const node = this.nodes.get(envelope.nodeId);
+    switch (envelope.type) {
+      case 'presence':
+        this.nodes.set(envelope.nodeId, { lastSeenAt: Date.now(), sessions: envelope.sessions });
+        if (!node) {
+          this.options.log.info('Cluster node joined', { nodeId: envelope.nodeId });
+          this.announce(); // So the new node learns about this one without waiting for a heartbeat
+        }
+        break;
+      case 'leave':
+        this.options.log.info('Cluster node left', { nodeId: envelope.nodeId });
+        this.dropNode(envelope.nodeId);
+        break;
+      default:
+        if (node) node.lastSeenAt = Date.now();
+        try {
+          this.options.onEvent(envelope);
+        } catch (error) {
+          this.options.log.error('Failed to handle cluster event', { type: envelope.type, nodeId: envelope.nodeId, error });
+        }
+    }
+  }
+
+  private expireNodes() {
+    const cutoff = Date.now() - this.options.nodeTimeoutMs;
+    this.nodes.forEach((node, nodeId) => {
+      if (node.lastSeenAt < cutoff) {
+        this.options.log.warn('Cluster node stopped responding', { nodeId, sessions: node.sessions.length });
+        this.dropNode(nodeId);
+      }
+    });
+  }
+
+  private dropNode(nodeId: string) {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+    this.nodes.delete(nodeId);
+    this.options.onNodeLost(nodeId, node.sessions);
+  }
+}
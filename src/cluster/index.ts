@@ -0,0 +1,18 @@
+import { Logger } from '../logger.js';
+import { InProcessPubSub } from './memory.js';
+import { RedisPubSub } from './redis.js';
+import { PubSub } from './types.js';
+
+export * from './types.js';
+export * from './cluster.js';
+export { InProcessPubSub, RedisPubSub };
+
+// Pick a pub/sub transport from REDIS_URL:
+//   (unset)                  in-process, for a single node
+//   redis://host:6379        Redis, for several nodes (rediss:// for TLS)
+export function createPubSub(redisUrl: string | undefined, log: Logger): PubSub {
+  if (!redisUrl) {
+    return new InProcessPubSub();
+  }
+  return new RedisPubSub(redisUrl, log);
+}
@@ -0,0 +1,31 @@
+import { EventEmitter } from 'events';
+import { PubSub } from './types.js';
+
+// Pub/sub within one process. Several servers sharing an instance behave like
+// nodes sharing a Redis server. Delivery is asynchronous, as it would be over
+// the network, and a publisher also receives its own messages.
+export class InProcessPubSub implements PubSub {
+  private emitter = new EventEmitter().setMaxListeners(0);
+  private subscriptions: { channel: string; listener: (message: string) => void }[] = [];
+
+  async publish(channel: string, message: string): Promise<void> {
+    setImmediate(() => this.emitter.emit(channel, message));
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.emitter.on(channel, handler);
+    this.subscriptions.push({ channel, listener: handler });
+  }
+
+  // A view of the same bus with its own subscriptions, for one node
+  connect(): InProcessPubSub {
+    const node = new InProcessPubSub();
+    node.emitter = this.emitter;
+    return node;
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions.forEach(({ channel, listener }) => this.emitter.off(channel, listener));
+    this.subscriptions = [];
+  }
+}
@@ -0,0 +1,267 @@
+import net from 'net';
+import tls from 'tls';
+import { Logger } from '../logger.js';
+import { PubSub } from './types.js';
+
+// --- Redis Pub/Sub ---
+// Just enough of the Redis protocol (RESP) for PUBLISH and SUBSCRIBE. Redis
+// needs a connection of its own for subscribing, so there are two, and both
+// reconnect with backoff. Messages published while Redis is unreachable are
+// queued up to a limit; channels are subscribed again after a reconnect.
+
+const MIN_RETRY_MS = 100;
+const MAX_RETRY_MS = 5000;
+const MAX_QUEUED_COMMANDS = 1000;
+
+export class RedisError extends Error {}
+
+type Reply = string | number | null | RedisError | Reply[];
+
+interface RedisOptions {
+  host: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+}
+
+// redis://[[username]:password@]host[:port] or rediss:// for TLS
+export function parseRedisUrl(url: string): RedisOptions {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new Error(`Unsupported Redis URL scheme '${parsed.protocol.replace(/:$/, '')}'. Use redis:// or rediss://`);
+  }
+  const port = parsed.port ? Number(parsed.port) : 6379;
+  if (!parsed.hostname || !Number.isInteger(port)) {
+    throw new Error(`Invalid Redis URL '${url}'`);
+  }
+  return {
+    host: parsed.hostname,
+    port,
+    tls: parsed.protocol === 'rediss:',
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined
+  };
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+// Parse the reply starting at offset, or return undefined if it hasn't fully arrived yet
+function parseReply(buffer: Buffer, offset: number): { reply: Reply; next: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return { reply: line, next };
+    case '-':
+      return { reply: new RedisError(line), next };
+    case ':':
+      return { reply: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length < 0) return { reply: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { reply: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count < 0) return { reply: null, next };
+      const items: Reply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        items.push(item.reply);
+        position = item.next;
+      }
+      return { reply: items, next: position };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type '${String.fromCharCode(buffer[offset])}' from Redis`);
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+}
+
+// One connection to Redis. Replies are matched to commands in order; pushed
+// pub/sub messages go to onPush instead.
+class RedisConnection {
+  private socket?: net.Socket;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private queued: (PendingCommand & { args: string[] })[] = []; // Sent once connected
+  private ready = false;
+  private closed = false;
+  private retryMs = MIN_RETRY_MS;
+  private failing = false; // Warn once per outage, not on every retry
+
+  constructor(
+    private options: RedisOptions,
+    private log: Logger,
+    private onReady: () => void = () => {},
+    private onPush: (channel: string, message: string) => void = () => {}
+  ) {
+    this.connect();
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  command(args: string[]): Promise<Reply> {
+    if (this.closed) return Promise.reject(new RedisError('Redis connection is closed'));
+    if (this.ready) return this.send(args);
+    if (this.queued.length >= MAX_QUEUED_COMMANDS) {
+      return Promise.reject(new RedisError('Redis is unavailable'));
+    }
+    return new Promise((resolve, reject) => this.queued.push({ args, resolve, reject }));
+  }
+
+  close() {
+    this.closed = true;
+    this.queued.forEach(({ reject }) => reject(new RedisError('Redis connection is closed')));
+    this.queued = [];
+    this.socket?.end();
+  }
+
+  private connect() {
+    const { host, port } = this.options;
+    const socket = this.options.tls ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    this.socket = socket;
+    socket.setNoDelay(true);
+
+    socket.on(this.options.tls ? 'secureConnect' : 'connect', () => {
+      this.handshake().catch((error) => {
+        this.log.error('Redis handshake failed', { error: error.message });
+        socket.destroy();
+      });
+    });
+    socket.on('data', (data) => this.receive(data));
+    socket.on('error', (error) => {
+      if (this.failing) {
+        this.log.debug('Redis connection error', { error: error.message });
+      } else {
+        this.failing = true;
+        this.log.warn('Redis connection error; retrying', { error: error.message });
+      }
+    });
+    socket.on('close', () => {
+      const wasReady = this.ready;
+      this.ready = false;
+      this.buffer = Buffer.alloc(0);
+      this.pending.forEach(({ reject }) => reject(new RedisError('Redis connection lost')));
+      this.pending = [];
+      if (this.closed) return;
+      if (wasReady) this.log.warn('Lost connection to Redis; reconnecting');
+      setTimeout(() => this.connect(), this.retryMs).unref();
+      this.retryMs = Math.min(this.retryMs * 2, MAX_RETRY_MS);
+    });
+  }
+
+  private async handshake() {
+    const { username, password } = this.options;
+    if (password) {
+      await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+    if (this.failing) this.log.info('Connected to Redis');
+    this.ready = true;
+    this.failing = false;
+    this.retryMs = MIN_RETRY_MS;
+    const queued = this.queued;
+    this.queued = [];
+    queued.forEach(({ args, resolve, reject }) => this.send(args).then(resolve, reject));
+    this.onReady();
+  }
+
+  private send(args: string[]): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  private receive(data: Buffer) {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, data]) : data;
+    let offset = 0;
+    try {
+      for (let parsed = parseReply(this.buffer, offset); parsed; parsed = parseReply(this.buffer, offset)) {
+        offset = parsed.next;
+        this.dispatch(parsed.reply);
+      }
+    } catch (error) {
+      this.log.error('Unreadable reply from Redis', { error: (error as Error).message });
+      this.socket?.destroy();
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private dispatch(reply: Reply) {
+    if (Array.isArray(reply) && reply[0] === 'message' && reply.length === 3) {
+      this.onPush(String(reply[1]), String(reply[2]));
+      return;
+    }
+    const command = this.pending.shift();
+    if (!command) return;
+    if (reply instanceof RedisError) {
+      command.reject(reply);
+    } else {
+      command.resolve(reply);
+    }
+  }
+}
+
+export class RedisPubSub implements PubSub {
+  private publisher: RedisConnection;
+  private subscriber: RedisConnection;
+  private handlers = new Map<string, ((message: string) => void)[]>(); // channel -> handlers
+
+  constructor(url: string, private log: Logger) {
+    const options = parseRedisUrl(url);
+    this.publisher = new RedisConnection(options, log);
+    this.subscriber = new RedisConnection(
+      options,
+      log,
+      () => this.resubscribe(),
+      (channel, message) => this.handlers.get(channel)?.forEach((handler) => handler(message))
+    );
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.command(['PUBLISH', channel, message]);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+    this.handlers.set(channel, [handler]);
+    // Until the connection is up, resubscribe() will take care of it
+    if (this.subscriber.isReady) {
+      await this.subscriber.command(['SUBSCRIBE', channel]);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.publisher.close();
+    this.subscriber.close();
+  }
+
+  private resubscribe() {
+    this.handlers.forEach((_handlers, channel) => {
+      this.subscriber.command(['SUBSCRIBE', channel]).catch((error) => {
+        this.log.error('Could not subscribe to Redis channel', { channel, error: error.message });
+      });
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import type { StoredRevocation } from '../storage/index.js';
+import type { Message, Presence, ProjectRole } from '../types.js';
+
+// Publish/subscribe transport between server nodes. Messages are strings;
+// delivery is at most once, in order per publisher.
+export interface PubSub {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A connection in a project on some node, as other nodes see it
+export interface ClusterSession {
+  clientId: string;
+  projectId: string;
+  userId: string;
+  userName: string;
+  role?: ProjectRole;
+  presence?: Presence; // As of the node's last heartbeat
+  following?: string;
+}
+
+// What nodes tell each other. Every event carries the publishing node's id.
+export type ClusterEvent =
+  | { type: 'broadcast'; projectId: string; message: Message; excludeClientId?: string } // Project event for every connection
+  | { type: 'user'; projectId: string; userId: string; message: Message } // Event for one user's connections
+  | { type: 'admin'; event: string; data: unknown } // Socket.IO admin room event
+  | { type: 'revocation'; revocation: StoredRevocation } // Tokens revoked; close connections using them
+  | { type: 'presence'; sessions: ClusterSession[] } // The node's sessions; also its heartbeat
+  | { type: 'leave' }; // The node is shutting down
+
+export type ClusterEnvelope = ClusterEvent & { nodeId: string };
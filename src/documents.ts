@@ -0,0 +1,549 @@
+import DiffMatchPatch from 'diff-match-patch';
+
+// --- Types ---
+
+export type Diff = [number, string];
+
+// Plain-object shape of a diff-match-patch patch as it travels over the wire
+export interface PatchObject {
+  diffs: Diff[];
+  start1: number | null;
+  start2: number | null;
+  length1: number;
+  length2: number;
+}
+
+// A change to a file as operations over the previous revision's text, in order:
+// a number keeps that many characters, [-1, text] deletes text and [1, text]
+// inserts it. Kept text is stored as its length, so history grows with the size
+// of the changes rather than of the file.
+export type ChangeOp = number | [-1, string] | [1, string];
+
+export interface DocumentRevision {
+  revision: number; // Revision this change produced
+  ops: ChangeOp[]; // From the previous revision's text to this revision's text
+  userId: string;
+  timestamp: string;
+}
+
+export interface SharedDocument {
+  fileId: string;
+  content: string;
+  revision: number;
+  history: DocumentRevision[]; // Most recent changes, oldest first
+  openBy: Set<string>; // Client IDs that currently have the file open
+}
+
+export interface DocumentSnapshot {
+  fileId: string;
+  content: string;
+  revision: number;
+}
+
+export interface FileSummary {
+  fileId: string;
+  revision: number;
+  length: number; // Characters
+  openBy: number; // Connections that have it open
+}
+
+export interface OpenFileSummary {
+  fileId: string;
+  revision: number;
+  clientIds: string[];
+}
+
+export interface AppliedEdit {
+  fileId: string;
+  revision: number;
+  baseRevision: number; // Revision the client based its patch on
+  changeData: PatchObject[]; // Patches from revision - 1 to revision, as applied by the server
+  rebased: boolean; // True if the patch had to be moved over concurrent edits
+}
+
+// Thrown when an edit cannot be applied to the server copy. The client should
+// resync from `currentRevision` before retrying.
+export class EditConflictError extends Error {
+  constructor(message: string, public readonly currentRevision: number) {
+    super(message);
+    this.name = 'EditConflictError';
+  }
+}
+
+// Called after a document's content changes, e.g. to persist it. `change` is
+// absent when a file is seeded with its initial content.
+export type DocumentChangeListener = (projectId: string, document: SharedDocument, change?: DocumentRevision) => void;
+
+// A previously saved document, as handed to loadProject
+export interface LoadedDocument {
+  fileId: string;
+  content: string;
+  revision: number;
+  history: DocumentRevision[];
+}
+
+// How many revisions we keep around for rebasing late patches
+export const MAX_HISTORY = 500;
+
+const dmp = new DiffMatchPatch();
+
+// The bundled typings describe patches as constructors; work with plain objects instead
+type DmpPatches = Parameters<DiffMatchPatch['patch_apply']>[0];
+
+// --- Document Store ---
+
+// Server-authoritative copy of every file being edited, per project.
+// Every accepted edit bumps the file's revision. Patches made against an older
+// revision are rebased over the edits the client had not yet seen before
+// applying, or rejected if they overlap one of them.
+export class DocumentStore {
+  private projects = new Map<string, Map<string, SharedDocument>>(); // projectId -> fileId -> document
+  private moves = new Map<string, Map<string, string | null>>(); // projectId -> old fileId -> current fileId, or null once deleted
+
+  constructor(private onChange?: DocumentChangeListener, private now: () => number = Date.now) {}
+
+  hasProject(projectId: string): boolean {
+    return this.projects.has(projectId);
+  }
+
+  // Restore saved documents for a project. Files already in memory are kept as-is.
+  loadProject(projectId: string, documents: LoadedDocument[]) {
+    let files = this.projects.get(projectId);
+    if (!files) {
+      files = new Map();
+      this.projects.set(projectId, files);
+    }
+    for (const loaded of documents) {
+      if (files.has(loaded.fileId)) continue;
+      files.set(loaded.fileId, {
+        fileId: loaded.fileId,
+        content: loaded.content,
+        revision: loaded.revision,
+        history: loaded.history.slice(-MAX_HISTORY),
+        openBy: new Set()
+      });
+    }
+  }
+
+  get(projectId: string, fileId: string): SharedDocument | undefined {
+    return this.projects.get(projectId)?.get(fileId);
+  }
+
+  // Current ID of a file that may have been renamed since a client last heard
+  // about it, or undefined if it has been deleted
+  resolve(projectId: string, fileId: string): string | undefined {
+    if (this.get(projectId, fileId)) return fileId;
+    const moved = this.moves.get(projectId)?.get(fileId);
+    return moved === null ? undefined : moved ?? fileId;
+  }
+
+  getOrCreate(projectId: string, fileId: string): SharedDocument {
+    let files = this.projects.get(projectId);
+    if (!files) {
+      files = new Map();
+      this.projects.set(projectId, files);
+    }
+    let document = files.get(fileId);
+    if (!document) {
+      document = { fileId, content: '', revision: 0, history: [], openBy: new Set() };
+      files.set(fileId, document);
+      this.moves.get(projectId)?.delete(fileId); // A new file by that name, not the one that was moved away
+    }
+    return document;
+  }
+
+  // Add a new file with its initial content. Returns undefined if the file already exists.
+  create(projectId: string, fileId: string, content: string): SharedDocument | undefined {
+    if (this.get(projectId, fileId)) return undefined;
+    const document = this.getOrCreate(projectId, fileId);
+    document.content = content;
+    this.onChange?.(projectId, document);
+    return document;
+  }
+
+  // Move a file, with its history and the clients that have it open, to a new
+  // ID. Edits still addressed to the old ID follow it. Returns undefined if the
+  // file doesn't exist or the new ID is taken.
+  rename(projectId: string, fileId: string, newFileId: string): SharedDocument | undefined {
+    const files = this.projects.get(projectId);
+    const document = files?.get(fileId);
+    if (!files || !document || files.has(newFileId)) return undefined;
+    files.delete(fileId);
+    document.fileId = newFileId;
+    files.set(newFileId, document);
+    this.recordMove(projectId, fileId, newFileId);
+    return document;
+  }
+
+  // Remove a file. Edits still addressed to it are rejected. Returns the removed file.
+  delete(projectId: string, fileId: string): SharedDocument | undefined {
+    const files = this.projects.get(projectId);
+    const document = files?.get(fileId);
+    if (!files || !document) return undefined;
+    files.delete(fileId);
+    this.recordMove(projectId, fileId, null);
+    return document;
+  }
+
+  private recordMove(projectId: string, fileId: string, to: string | null) {
+    let moves = this.moves.get(projectId);
+    if (!moves) {
+      moves = new Map();
+      this.moves.set(projectId, moves);
+    }
+    // Earlier names of the file follow it too
+    moves.forEach((current, previous) => {
+      if (current === fileId) moves!.set(previous, to);
+    });
+    moves.set(fileId, to);
+    if (to !== null) moves.delete(to);
+  }
+
+  // Apply a client patch made against `baseRevision`. Omitting the base revision
+  // applies the patch to the latest text using diff-match-patch's fuzzy matching.
+  applyEdit(projectId: string, fileId: string, patches: PatchObject[], userId: string, baseRevision?: number): AppliedEdit {
+    const currentId = this.resolve(projectId, fileId);
+    if (currentId === undefined) {
+      throw new EditConflictError(`File ${fileId} has been deleted`, 0);
+    }
+    const document = this.get(projectId, currentId);
+    if (!document) {
+      throw new EditConflictError(`File ${fileId} does not exist`, 0);
+    }
+    fileId = currentId;
+    const base = baseRevision ?? document.revision;
+
+    if (!Number.isInteger(base) || base < 0 || base > document.revision) {
+      throw new EditConflictError(`Unknown base revision ${base} for ${fileId}`, document.revision);
+    }
+
+    // Revisions the client had not seen when it made the patch
+    const missed = document.history.filter((entry) => entry.revision > base);
+    if (missed.length !== document.revision - base) {
+      throw new EditConflictError(`Base revision ${base} for ${fileId} is too old to rebase`, document.revision);
+    }
+
+    let newContent: string;
+    if (baseRevision === undefined) {
+      const [patched, results] = dmp.patch_apply(patches as unknown as DmpPatches, document.content);
+      if (results.some((applied) => !applied)) {
+        throw new EditConflictError(`Edit for ${fileId} conflicts with revision ${document.revision}`, document.revision);
+      }
+      newContent = patched;
+    } else {
+      // Read the patch as edits to the text it was made against, then move the
+      // edits over each missed change. Edits touching text a missed change
+      // touched are rejected rather than merged.
+      let text = missed.reduceRight((content, entry) => revertChange(content, entry.ops), document.content);
+      let edits = readEdits(patches, text);
+      if (!edits) {
+        throw new EditConflictError(`Edit for ${fileId} does not match revision ${base}`, document.revision);
+      }
+      for (const entry of missed) {
+        edits = rebaseEdits(edits, entry.ops, text);
+        if (!edits) {
+          throw new EditConflictError(`Edit for ${fileId} overlaps a change made in revision ${entry.revision}`, document.revision);
+        }
+        text = applyEdits(text, changeEdits(entry.ops));
+      }
+      newContent = applyEdits(document.content, edits);
+    }
+
+    const diffs = dmp.diff_main(document.content, newContent) as Diff[];
+    dmp.diff_cleanupEfficiency(diffs);
+    const changeData = toPatchObjects(dmp.patch_make(document.content, diffs));
+
+    const change: DocumentRevision = {
+      revision: document.revision + 1,
+      ops: compactDiffs(diffs),
+      userId,
+      timestamp: new Date(this.now()).toISOString()
+    };
+    document.content = newContent;
+    document.revision = change.revision;
+    document.history.push(change);
+    if (document.history.length > MAX_HISTORY) {
+      document.history.splice(0, document.history.length - MAX_HISTORY);
+    }
+    this.onChange?.(projectId, document, change);
+
+    return {
+      fileId,
+      revision: document.revision,
+      baseRevision: base,
+      changeData,
+      rebased: missed.length > 0
+    };
+  }
+
+  // Replace characters [start, end) of the latest text, e.g. to apply a
+  // suggested change. Returns the edit like any other so it can be broadcast.
+  replaceRange(projectId: string, fileId: string, start: number, end: number, text: string, userId: string): AppliedEdit {
+    const currentId = this.resolve(projectId, fileId);
+    const document = currentId === undefined ? undefined : this.get(projectId, currentId);
+    if (!document) {
+      throw new EditConflictError(`File ${fileId} does not exist`, 0);
+    }
+    if (start < 0 || end < start || end > document.content.length) {
+      throw new EditConflictError(`Range ${start}-${end} is outside ${fileId} (${document.content.length} characters)`, document.revision);
+    }
+    const newContent = document.content.slice(0, start) + text + document.content.slice(end);
+    return this.applyEdit(projectId, document.fileId, makePatches(document.content, newContent), userId, document.revision);
+  }
+
+  // Current text and revision of a file, if the server has seen it
+  snapshot(projectId: string, fileId: string): DocumentSnapshot | undefined {
+    const document = this.get(projectId, this.resolve(projectId, fileId) ?? fileId);
+    if (!document) return undefined;
+    return { fileId: document.fileId, content: document.content, revision: document.revision };
+  }
+
+  // Mark a file as open by a client. `initialContent` seeds a file nobody has
+  // edited yet, so the first person to open it supplies its text.
+  open(projectId: string, fileId: string, clientId: string, initialContent?: string): DocumentSnapshot {
+    const document = this.getOrCreate(projectId, this.resolve(projectId, fileId) ?? fileId);
+    if (initialContent && document.revision === 0 && document.content === '') {
+      document.content = initialContent;
+      this.onChange?.(projectId, document);
+    }
+    document.openBy.add(clientId);
+    return { fileId: document.fileId, content: document.content, revision: document.revision };
+  }
+
+  // Returns true if the client had the file open
+  close(projectId: string, fileId: string, clientId: string): boolean {
+    const document = this.get(projectId, this.resolve(projectId, fileId) ?? fileId);
+    return document ? document.openBy.delete(clientId) : false;
+  }
+
+  // Close every file a client has open in a project, returning the affected file IDs
+  closeAll(projectId: string, clientId: string): string[] {
+    const closed: string[] = [];
+    this.projects.get(projectId)?.forEach((document) => {
+      if (document.openBy.delete(clientId)) {
+        closed.push(document.fileId);
+      }
+    });
+    return closed;
+  }
+
+  // Every file in a project, by ID
+  list(projectId: string): FileSummary[] {
+    return Array.from(this.projects.get(projectId)?.values() ?? [])
+      .map((document) => ({
+        fileId: document.fileId,
+        revision: document.revision,
+        length: document.content.length,
+        openBy: document.openBy.size
+      }))
+      .sort((a, b) => (a.fileId < b.fileId ? -1 : a.fileId > b.fileId ? 1 : 0));
+  }
+
+  // Files in a project that at least one client has open
+  listOpen(projectId: string): OpenFileSummary[] {
+    const files = this.projects.get(projectId);
+    if (!files) return [];
+    return Array.from(files.values())
+      .filter((document) => document.openBy.size > 0)
+      .map((document) => ({
+        fileId: document.fileId,
+        revision: document.revision,
+        clientIds: Array.from(document.openBy)
+      }));
+  }
+
+  // Drop all documents for a project (e.g. when the last member leaves)
+  closeProject(projectId: string) {
+    this.projects.delete(projectId);
+    this.moves.delete(projectId);
+  }
+}
+
+// --- Rebasing ---
+
+// Characters [start, end) of a text replaced by `text`
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function addEdit(edits: TextEdit[], start: number, end: number, text: string): boolean {
+  const last = edits[edits.length - 1];
+  if (last && last.end === start) {
+    last.end = end;
+    last.text += text;
+  } else if (last && last.end > start) {
+    return false;
+  } else {
+    edits.push({ start, end, text });
+  }
+  return true;
+}
+
+// The edits patches make to the text they were made against, in order. Returns
+// undefined unless every hunk matches that text exactly where it says it applies.
+function readEdits(patches: PatchObject[], text: string): TextEdit[] | undefined {
+  const edits: TextEdit[] = [];
+  let shift = 0; // Characters the earlier hunks added; hunk positions count them
+  for (const patch of patches) {
+    let index = (patch.start2 ?? 0) - shift;
+    if (index < 0) return undefined;
+    for (const [op, data] of patch.diffs) {
+      if (op === 1) {
+        if (!addEdit(edits, index, index, data)) return undefined;
+        shift += data.length;
+        continue;
+      }
+      if (!text.startsWith(data, index)) return undefined;
+      if (op === -1) {
+        if (!addEdit(edits, index, index + data.length, '')) return undefined;
+        shift -= data.length;
+      }
+      index += data.length;
+    }
+  }
+  return edits;
+}
+
+// The edits a change made to the previous revision's text
+function changeEdits(ops: ChangeOp[]): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let index = 0;
+  for (const op of ops) {
+    if (typeof op === 'number') {
+      index += op;
+    } else if (op[0] === 1) {
+      addEdit(edits, index, index, op[1]);
+    } else {
+      addEdit(edits, index, index + op[1].length, '');
+      index += op[1].length;
+    }
+  }
+  return edits;
+}
+
+// Characters an edit to `text` could have covered with the same result. A diff
+// may place a deletion or insertion anywhere along a run of repeated text, e.g.
+// deleting "line2\n" from "line1\nline2\nline3" may come as deleting "2\nline".
+function editExtent(text: string, edit: TextEdit): [number, number] {
+  const { start, end } = edit;
+  if (start < end && edit.text === '') {
+    let back = 0; // How far the deleted text could move back, and forward
+    while (start - back > 0 && text[start - back - 1] === text[end - back - 1]) back += 1;
+    let forward = 0;
+    while (end + forward < text.length && text[start + forward] === text[end + forward]) forward += 1;
+    return [start - back, end + forward];
+  }
+  if (start === end) {
+    const inserted = edit.text;
+    let back = 0;
+    while (start - back > 0 && text[start - back - 1] === inserted[inserted.length - 1 - (back % inserted.length)]) back += 1;
+    let forward = 0;
+    while (start + forward < text.length && text[start + forward] === inserted[forward % inserted.length]) forward += 1;
+    return [start - back, start + forward];
+  }
+  return [start, end];
+}
+
+// Move edits to `text` over a change made to it. Returns undefined if an edit
+// touches text the change replaced or inserted into. Insertions at the same
+// place are both kept, the change's first.
+function rebaseEdits(edits: TextEdit[], ops: ChangeOp[], text: string): TextEdit[] | undefined {
+  const changes = changeEdits(ops).map((change) => ({ change, extent: editExtent(text, change) }));
+  for (const edit of edits) {
+    const [start, end] = editExtent(text, edit);
+    const overlaps = changes.some(({ change, extent }) =>
+      !(edit.start === edit.end && change.start === change.end) && start < extent[1] && extent[0] < end);
+    if (overlaps) return undefined;
+  }
+  return edits.map((edit) => {
+    const start = transformIndex(ops, edit.start);
+    const end = edit.end === edit.start ? start : transformIndex(ops, edit.end, true);
+    return { start, end, text: edit.text };
+  });
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  let text = '';
+  let index = 0;
+  for (const edit of edits) {
+    text += content.slice(index, edit.start) + edit.text;
+    index = edit.end;
+  }
+  return text + content.slice(index);
+}
+
+function toPatchObjects(patches: ReturnType<DiffMatchPatch['patch_make']>): PatchObject[] {
+  return (patches as unknown as PatchObject[]).map((patch) => ({
+    diffs: patch.diffs.map((diff) => [diff[0], diff[1]] as Diff),
+    start1: patch.start1,
+    start2: patch.start2,
+    length1: patch.length1,
+    length2: patch.length2
+  }));
+}
+
+// Patches that turn one text into another, in the form edit:send takes
+export function makePatches(from: string, to: string): PatchObject[] {
+  return toPatchObjects(dmp.patch_make(from, to));
+}
+
+// A change in the form history keeps: kept text becomes its length
+export function compactDiffs(diffs: ReadonlyArray<Diff>): ChangeOp[] {
+  const ops: ChangeOp[] = [];
+  for (const [operation, text] of diffs) {
+    if (operation !== 0) {
+      ops.push([operation === 1 ? 1 : -1, text]);
+      continue;
+    }
+    const kept = text.length;
+    const last = ops.length - 1;
+    if (typeof ops[last] === 'number') {
+      ops[last] = (ops[last] as number) + kept;
+    } else if (kept > 0) {
+      ops.push(kept);
+    }
+  }
+  return ops;
+}
+
+// Where a position in the previous text ends up after a change. Text inserted
+// right at the position moves it past the insertion, unless `stickBefore` is
+// set; a position inside deleted text moves to where the deletion was.
+export function transformIndex(ops: ChangeOp[], index: number, stickBefore = false): number {
+  let from = 0; // Position in the previous text
+  let shift = 0; // Characters the change added before `index`
+  for (const op of ops) {
+    if (typeof op === 'number') {
+      from += op;
+      if (from > index) break;
+    } else if (op[0] === 1) {
+      if (from === index && stickBefore) break;
+      shift += op[1].length;
+    } else {
+      if (from >= index) break;
+      shift -= Math.min(from + op[1].length, index) - from;
+      from += op[1].length;
+      if (from > index) break;
+    }
+  }
+  return index + shift;
+}
+
+// The text a change was made against, from the text it produced
+export function revertChange(content: string, ops: ChangeOp[]): string {
+  let text = '';
+  let index = 0; // Position in `content`
+  for (const op of ops) {
+    if (typeof op === 'number') {
+      text += content.slice(index, index + op);
+      index += op;
+    } else if (op[0] === 1) {
+      index += op[1].length;
+    } else {
+      text += op[1];
+    }
+  }
+  return text + content.slice(index);
+}
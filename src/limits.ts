@@ -0,0 +1,123 @@
+import { Client } from './types.js';
+
+// --- Rate Limiting ---
+// Token buckets per user and per project for each kind of traffic. A call
+// spends one token from both its user's and its project's bucket, and is
+// rejected with a retry-after if either is empty.
+
+export type RateLimitKind = 'tool' | 'edit' | 'chat' | 'ai';
+
+export interface BucketConfig {
+  capacity: number; // Burst size
+  perMinute: number; // Refill rate
+}
+
+export type RateLimitConfig = Record<RateLimitKind, { user: BucketConfig; project: BucketConfig }>;
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  tool: { user: { capacity: 30, perMinute: 600 }, project: { capacity: 200, perMinute: 3000 } },
+  edit: { user: { capacity: 60, perMinute: 1200 }, project: { capacity: 300, perMinute: 6000 } },
+  chat: { user: { capacity: 10, perMinute: 60 }, project: { capacity: 50, perMinute: 300 } },
+  ai: { user: { capacity: 5, perMinute: 20 }, project: { capacity: 20, perMinute: 60 } }
+};
+
+const PRUNE_EVERY = 1000; // Calls between sweeps for idle buckets
+
+// Overrides from RATE_LIMITS, e.g. {"ai":{"user":{"capacity":2,"perMinute":5}}}
+export function parseRateLimits(json?: string): RateLimitConfig {
+  const config: RateLimitConfig = JSON.parse(JSON.stringify(DEFAULT_RATE_LIMITS));
+  if (!json) return config;
+
+  const overrides = JSON.parse(json);
+  for (const [kind, scopes] of Object.entries(overrides ?? {})) {
+    if (!(kind in config)) {
+      throw new Error(`Unknown rate limit '${kind}'. Use one of: ${Object.keys(config).join(', ')}`);
+    }
+    for (const [scope, bucket] of Object.entries(scopes as Record<string, Partial<BucketConfig>>)) {
+      if (scope !== 'user' && scope !== 'project') {
+        throw new Error(`Unknown rate limit scope '${kind}.${scope}'. Use user or project`);
+      }
+      Object.assign(config[kind as RateLimitKind][scope], bucket);
+    }
+  }
+  return config;
+}
+
+export interface RateLimited {
+  limit: string; // e.g. 'chat' or 'ai_daily_tokens'
+  scope: 'user' | 'project';
+  retryAfterMs: number;
+}
+
+// Error details sent with a rate-limited call
+export function rateLimitedDetails(limited: RateLimited) {
+  return {
+    limit: limited.limit,
+    scope: limited.scope,
+    retryAfterMs: limited.retryAfterMs,
+    retryAfter: Math.ceil(limited.retryAfterMs / 1000) // Seconds, as in an HTTP Retry-After header
+  };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>(); // `${kind}:${scope}:${id}` -> bucket
+  private calls = 0;
+
+  constructor(private config: RateLimitConfig = DEFAULT_RATE_LIMITS, private now: () => number = Date.now) {}
+
+  // Spend one token for this client. Returns undefined if allowed; otherwise
+  // nothing is spent and the result says which limit was hit.
+  take(kind: RateLimitKind, client: Client): RateLimited | undefined {
+    const now = this.now();
+    if (++this.calls % PRUNE_EVERY === 0) this.prune(now);
+
+    const limits = this.config[kind];
+    const checks: { scope: 'user' | 'project'; key: string; config: BucketConfig }[] = [
+      { scope: 'user', key: `${kind}:user:${client.userId}`, config: limits.user }
+    ];
+    if (client.projectId) {
+      checks.push({ scope: 'project', key: `${kind}:project:${client.projectId}`, config: limits.project });
+    }
+
+    const buckets = checks.map(({ key, config }) => this.refill(key, config, now));
+    for (let i = 0; i < checks.length; i++) {
+      if (buckets[i].tokens < 1) {
+        const perMs = checks[i].config.perMinute / 60000;
+        return {
+          limit: kind,
+          scope: checks[i].scope,
+          retryAfterMs: perMs > 0 ? Math.ceil((1 - buckets[i].tokens) / perMs) : Number.MAX_SAFE_INTEGER
+        };
+      }
+    }
+    buckets.forEach((bucket) => { bucket.tokens -= 1; });
+    return undefined;
+  }
+
+  private refill(key: string, config: BucketConfig, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: config.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + (now - bucket.updatedAt) * config.perMinute / 60000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  // Forget buckets that have refilled completely; they'd be recreated full anyway
+  private prune(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      const [kind, scope] = key.split(':') as [RateLimitKind, 'user' | 'project'];
+      const config = this.config[kind][scope];
+      if (bucket.tokens + (now - bucket.updatedAt) * config.perMinute / 60000 >= config.capacity) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,84 @@
+// --- Logging ---
+// Structured logs, one JSON object per line. Child loggers carry correlation
+// fields (connection, user, request) into every line they write, and fields
+// that may hold message bodies or credentials are redacted.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields never written as-is: chat and AI text, file contents and credentials
+const REDACTED_FIELDS = new Set([
+  'message', 'text', 'content', 'prompt', 'codeSnippet', 'payload', 'arguments',
+  'token', 'resumeToken', 'authorization', 'apiKey', 'password', 'secret'
+]);
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g; // Tokens quoted in error messages
+const REDACTED = '[redacted]';
+const MAX_DEPTH = 5;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVELS;
+}
+
+export function parseLogLevel(value?: string): LogLevel {
+  if (!value) return 'info';
+  const level = value.toLowerCase();
+  if (!isLogLevel(level)) {
+    throw new Error(`Unknown log level '${value}'. Use one of: ${Object.keys(LEVELS).join(', ')}`);
+  }
+  return level;
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return value.replace(JWT_PATTERN, REDACTED);
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), ...(value.stack && { stack: redact(value.stack) }) };
+  }
+  if (!value || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  const redacted: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    redacted[key] = REDACTED_FIELDS.has(key) && field !== undefined ? REDACTED : redact(field, depth + 1);
+  }
+  return redacted;
+}
+
+export class Logger {
+  constructor(
+    readonly level: LogLevel = 'info',
+    private fields: LogFields = {},
+    private write: (level: LogLevel, line: string) => void = writeToConsole
+  ) {}
+
+  // A logger that adds these fields to every line, e.g. { connectionId, requestId }
+  child(fields: LogFields): Logger {
+    return new Logger(this.level, { ...this.fields, ...fields }, this.write);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.level];
+  }
+
+  debug(msg: string, fields?: LogFields) { this.log('debug', msg, fields); }
+  info(msg: string, fields?: LogFields) { this.log('info', msg, fields); }
+  warn(msg: string, fields?: LogFields) { this.log('warn', msg, fields); }
+  error(msg: string, fields?: LogFields) { this.log('error', msg, fields); }
+
+  private log(level: LogLevel, msg: string, fields?: LogFields) {
+    if (!this.isEnabled(level)) return;
+    const entry = redact({ ...this.fields, ...fields }) as LogFields;
+    this.write(level, JSON.stringify({ time: new Date().toISOString(), level, msg: redact(msg), ...entry }));
+  }
+}
+
+// console.log is redirected to stderr when stdout carries the MCP protocol
+function writeToConsole(level: LogLevel, line: string) {
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
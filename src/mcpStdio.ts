@@ -0,0 +1,210 @@
+import readline from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from './logger.js';
+import { ClientMessages, PROTOCOL_VERSION } from './protocol.js';
+import { ToolSummary } from './tools/registry.js';
+import { Client, ClientSocket, Message } from './types.js';
+
+// --- MCP over stdio ---
+// JSON-RPC 2.0, one message per line, as spoken by Cursor when it launches the
+// server from its MCP settings. Tool calls are routed into the same handlers as
+// the WebSocket transport through a Client whose socket is backed by stdout.
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'cursorkleo-mcp-server', version: '1.0.0' };
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null; // Absent for notifications
+  method: string;
+  params?: unknown;
+}
+
+// A JSON-RPC error, thrown by method handlers and sent back as the reply
+interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRequestId(value: unknown): value is JsonRpcRequest['id'] {
+  return value === undefined || value === null || typeof value === 'string' || typeof value === 'number';
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  return isObject(value) && value.jsonrpc === '2.0' && typeof value.method === 'string' && isRequestId(value.id);
+}
+
+// MCP tool names may not contain ':', so tools are exposed with '_' instead
+// (e.g. 'project:join' is listed as 'project_join')
+function toMcpName(toolName: string): string {
+  return toolName.replace(/:/g, '_');
+}
+
+export interface StdioTransportOptions {
+  userId: string;
+  userName: string;
+  registerClient: (client: Client) => void;
+  unregisterClient: (client: Client) => void;
+  listTools: () => ToolSummary[];
+  handleToolCall: (client: Client, payload: ClientMessages['mcp_tool_call'], requestId?: string) => Promise<void>;
+  log: Logger;
+  onClose?: () => void;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+// Where the transport reads requests and writes replies; stdin and stdout by default
+export type StdioStreams = Pick<StdioTransportOptions, 'input' | 'output'>;
+
+export function startStdioTransport(options: StdioTransportOptions): Client {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  // Tool responses waiting to be turned into JSON-RPC results, keyed by requestId
+  const pending = new Map<string, (message: Message & { isError?: boolean }) => void>();
+  let open = true;
+
+  const write = (message: Record<string, unknown>) => {
+    output.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+  };
+
+  const socket: ClientSocket = {
+    get readyState() {
+      return open ? 1 : 3; // WebSocket.OPEN / WebSocket.CLOSED
+    },
+    send(data: string) {
+      const message = JSON.parse(data);
+      // Only the tool response completes a call; anything else sharing its requestId
+      // (e.g. ai_chunk) is progress and goes out as a notification
+      const resolve = message.type === 'mcp_tool_response' && message.requestId ? pending.get(message.requestId) : undefined;
+      if (resolve) {
+        pending.delete(message.requestId);
+        resolve(message);
+      } else {
+        // Project events (edits, cursors, chat) are forwarded as notifications
+        write({ method: 'notifications/kleo/event', params: message });
+      }
+    },
+    close() {
+      rl.close();
+    }
+  };
+
+  const client: Client = {
+    ws: socket,
+    id: uuidv4(),
+    userId: options.userId,
+    userName: options.userName,
+    isAuthenticated: true,
+    protocolVersion: PROTOCOL_VERSION // Tool results are passed through, so errors have codes
+  };
+  options.registerClient(client);
+
+  const callTool = async (params: unknown): Promise<Record<string, unknown>> => {
+    const name = isObject(params) ? params.name : undefined;
+    const tool = options.listTools().find((candidate) => toMcpName(candidate.name) === name);
+    if (!isObject(params) || !tool) {
+      throw { code: INVALID_PARAMS, message: `Unknown tool: ${name}` } satisfies JsonRpcError;
+    }
+    const args = params.arguments ?? {};
+    if (!isObject(args)) {
+      throw { code: INVALID_PARAMS, message: 'Tool arguments must be an object' } satisfies JsonRpcError;
+    }
+    const requestId = `mcp-${uuidv4()}`;
+    const response = new Promise<Message & { isError?: boolean }>((resolve) => pending.set(requestId, resolve));
+
+    await options.handleToolCall(client, { toolName: tool.name, arguments: args }, requestId);
+
+    // Fire-and-forget tools (e.g. cursor:update) never send a response of their own
+    if (pending.has(requestId)) {
+      pending.get(requestId)!({ type: 'mcp_tool_response', payload: { success: true }, requestId });
+    }
+
+    const message = await response;
+    return {
+      content: [{ type: 'text', text: JSON.stringify(message.payload) }],
+      isError: message.isError === true
+    };
+  };
+
+  const handleRequest = async (request: JsonRpcRequest) => {
+    switch (request.method) {
+      case 'initialize': {
+        const requested = isObject(request.params) ? request.params.protocolVersion : undefined;
+        return {
+          protocolVersion: typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: options.listTools().map(({ name, description, inputSchema }) => ({
+            name: toMcpName(name),
+            description,
+            inputSchema
+          }))
+        };
+      case 'tools/call':
+        return callTool(request.params);
+      default:
+        throw { code: METHOD_NOT_FOUND, message: `Method not found: ${request.method}` } satisfies JsonRpcError;
+    }
+  };
+
+  const rl = readline.createInterface({ input, terminal: false });
+
+  rl.on('line', async (line) => {
+    if (line.trim() === '') return;
+
+    let request: unknown;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      write({ id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    if (!isJsonRpcRequest(request)) {
+      const id = isObject(request) && isRequestId(request.id) ? request.id : undefined;
+      write({ id: id ?? null, error: { code: INVALID_REQUEST, message: 'Invalid request' } });
+      return;
+    }
+
+    // Notifications (e.g. notifications/initialized) need no reply
+    if (request.id === undefined) return;
+
+    try {
+      const result = await handleRequest(request);
+      write({ id: request.id, result });
+    } catch (error: unknown) {
+      // JsonRpcErrors thrown above keep their code; anything else is an internal error
+      const failure = isObject(error) ? error : {};
+      const code = typeof failure.code === 'number' ? failure.code : INTERNAL_ERROR;
+      const message = typeof failure.message === 'string' && failure.message !== '' ? failure.message : 'Internal error';
+      options.log.warn('MCP request failed', { method: request.method, error: message });
+      write({ id: request.id, error: { code, message } });
+    }
+  });
+
+  rl.on('close', () => {
+    open = false;
+    pending.clear();
+    options.unregisterClient(client);
+    options.onClose?.();
+  });
+
+  return client;
+}
@@ -0,0 +1,99 @@
+import type { ClusterEvent } from './cluster/index.js';
+import { Client, ProjectRole, ServerContext } from './types.js';
+
+// --- Project Membership ---
+// Membership is tracked per connection, so one user with several Cursor windows
+// open has several sessions in the same project. Presence is aggregated per user,
+// across every node in the cluster.
+
+export interface ProjectUser {
+  userId: string;
+  userName: string;
+  role?: ProjectRole;
+  sessions: number; // Connections this user has in the project
+}
+
+// Live connections of a user in a project
+export function connectionsOf(server: ServerContext, projectId: string, userId: string): Client[] {
+  const connections: Client[] = [];
+  server.projects.get(projectId)?.forEach((clientId) => {
+    const client = server.clients.get(clientId);
+    if (client && client.userId === userId) {
+      connections.push(client);
+    }
+  });
+  return connections;
+}
+
+// Sessions a user has in a project, on this node and others
+export function sessionCount(server: ServerContext, projectId: string, userId: string): number {
+  return connectionsOf(server, projectId, userId).length
+    + server.cluster.remoteSessions(projectId).filter((session) => session.userId === userId).length;
+}
+
+// Remove a user from a project's members and disconnect each of their sessions
+// from it. Returns how many sessions were disconnected.
+export async function kickFromProject(
+  server: ServerContext,
+  projectId: string,
+  userId: string,
+  by: { userId: string; userName: string }
+): Promise<number> {
+  await server.storage.removeMember(projectId, userId);
+
+  server.sendToUser(projectId, userId, {
+    type: 'project_kicked',
+    payload: { projectId, byUserId: by.userId, byUserName: by.userName }
+  });
+  const kicked = connectionsOf(server, projectId, userId);
+  kicked.forEach((connection) => server.leaveProject(connection));
+  return kicked.length;
+}
+
+// Disconnect everyone from a project, which drops its documents from memory.
+// Its members, chat and saved documents are kept. Returns how many sessions were disconnected.
+export function closeProject(server: ServerContext, projectId: string, reason: string): number {
+  const connections = Array.from(server.projects.get(projectId) ?? [])
+    .map((clientId) => server.clients.get(clientId))
+    .filter((client): client is Client => client !== undefined);
+
+  server.broadcast(projectId, { type: 'project_closed', payload: { projectId, reason } });
+  connections.forEach((connection) => server.leaveProject(connection));
+  return connections.length;
+}
+
+// Everyone connected to a project, one entry per user
+export function describeProjectUsers(server: ServerContext, projectId: string): ProjectUser[] {
+  const users = new Map<string, ProjectUser>();
+  const sessions = [
+    ...Array.from(server.projects.get(projectId) ?? []).map((clientId) => server.clients.get(clientId)),
+    ...server.cluster.remoteSessions(projectId)
+  ];
+  sessions.forEach((client) => {
+    if (!client) return;
+    const user = users.get(client.userId);
+    if (user) {
+      user.sessions += 1;
+    } else {
+      users.set(client.userId, { userId: client.userId, userName: client.userName, role: client.role, sessions: 1 });
+    }
+  });
+  return Array.from(users.values());
+}
+
+// Carry out on this node what a membership event from another node implies for
+// the connections here: kicked users leave, closed projects empty, roles change
+export function followRemoteEvent(server: ServerContext, event: ClusterEvent) {
+  if (event.type === 'user' && event.message.type === 'project_kicked') {
+    connectionsOf(server, event.projectId, event.userId).forEach((connection) => server.leaveProject(connection));
+  } else if (event.type === 'broadcast' && event.message.type === 'project_closed') {
+    Array.from(server.projects.get(event.projectId) ?? [])
+      .map((clientId) => server.clients.get(clientId))
+      .forEach((connection) => connection && server.leaveProject(connection));
+  } else if (event.type === 'broadcast' && event.message.type === 'member_role_changed') {
+    const { userId, role } = event.message.payload;
+    connectionsOf(server, event.projectId, userId).forEach((connection) => {
+      connection.role = role;
+    });
+  }
+}
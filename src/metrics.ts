@@ -0,0 +1,158 @@
+// --- Metrics ---
+// Counters, gauges and histograms rendered in the Prometheus text format for
+// the /metrics endpoint.
+
+type Labels = Record<string, string>;
+
+export const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // Seconds
+const AI_BUCKETS = [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]; // AI replies take seconds, not milliseconds
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their label values in the metric's label order
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, protected type: string, protected labelNames: string[]) {}
+
+  protected entry(labels: Labels, initial: () => T) {
+    const key = seriesKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ''])), value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+// Read when scraped, so gauges always reflect live state
+export class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[], private collect: () => { labels?: Labels; value: number }[]) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  protected samples(): string[] {
+    return this.collect().map(({ labels = {}, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram extends LabeledMetric<{ counts: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, labelNames: string[] = [], private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  // Observe the seconds elapsed since a process.hrtime.bigint() reading
+  observeSince(labels: Labels, start: bigint) {
+    this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach(({ labels, value }) => {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    });
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric & { name: string }>();
+
+  register<T extends Metric & { name: string }>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric '${metric.name}' is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    return Array.from(this.metrics.values()).map((metric) => metric.render().join('\n')).join('\n\n') + '\n';
+  }
+}
+
+// What the server records as it runs. Gauges for live state are registered
+// separately by whoever owns that state.
+export interface ServerMetrics {
+  registry: MetricsRegistry;
+  messagesReceived: Counter; // labels: type
+  messagesSent: Counter; // labels: type
+  broadcastDuration: Histogram; // labels: type
+  broadcastRecipients: Counter; // labels: type
+  toolCalls: Counter; // labels: tool, outcome
+  toolCallDuration: Histogram; // labels: tool
+  aiRequests: Counter; // labels: provider, outcome
+  aiRequestDuration: Histogram; // labels: provider
+  authFailures: Counter; // labels: reason
+  rateLimited: Counter; // labels: limit, scope
+  clusterEventsReceived: Counter; // labels: type
+  heartbeatTimeouts: Counter;
+}
+
+export function createServerMetrics(registry = new MetricsRegistry()): ServerMetrics {
+  return {
+    registry,
+    messagesReceived: registry.register(new Counter('collab_messages_received_total', 'WebSocket messages received, by type', ['type'])),
+    messagesSent: registry.register(new Counter('collab_messages_sent_total', 'Messages sent to connections, by type', ['type'])),
+    broadcastDuration: registry.register(new Histogram('collab_broadcast_duration_seconds', 'Time to fan a project event out to every connection', ['type'])),
+    broadcastRecipients: registry.register(new Counter('collab_broadcast_recipients_total', 'Connections that project events were delivered to', ['type'])),
+    toolCalls: registry.register(new Counter('collab_tool_calls_total', 'MCP tool calls, by tool and outcome', ['tool', 'outcome'])),
+    toolCallDuration: registry.register(new Histogram('collab_tool_call_duration_seconds', 'Time to handle an MCP tool call', ['tool'])),
+    aiRequests: registry.register(new Counter('collab_ai_requests_total', 'AI provider requests, by provider and outcome', ['provider', 'outcome'])),
+    aiRequestDuration: registry.register(new Histogram('collab_ai_request_duration_seconds', 'Time until an AI provider finished its reply', ['provider'], AI_BUCKETS)),
+    authFailures: registry.register(new Counter('collab_auth_failures_total', 'Failed authentication and resume attempts, by reason', ['reason'])),
+    rateLimited: registry.register(new Counter('collab_rate_limited_total', 'Calls rejected by a rate limit or quota', ['limit', 'scope'])),
+    clusterEventsReceived: registry.register(new Counter('collab_cluster_events_received_total', 'Events received from other nodes, by type', ['type'])),
+    heartbeatTimeouts: registry.register(new Counter('collab_heartbeat_timeouts_total', 'Connections dropped for not answering a ping', []))
+  };
+}
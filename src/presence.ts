@@ -0,0 +1,113 @@
+import type { ClusterSession } from './cluster/index.js';
+import { Client, CursorPosition, Message, PresenceStatus, ProjectRole, ServerContext, TextRange, Viewport } from './types.js';
+
+// --- Presence ---
+// Each client's cursor, selections, active file and viewport, plus a status
+// that turns idle and then away as the client stops doing anything. Away
+// clients' cursors and selections are dropped so they don't linger on
+// everyone's screen. A client can follow another user to receive their
+// viewport as it moves.
+
+// One session's presence as sent to clients
+export interface PresenceEntry {
+  clientId: string;
+  userId: string;
+  userName: string;
+  role?: ProjectRole;
+  fileId?: string;
+  cursor?: CursorPosition;
+  selections: TextRange[];
+  viewport?: Viewport;
+  status: PresenceStatus;
+  lastActiveAt?: string;
+  following?: string;
+}
+
+export class PresenceTracker {
+  constructor(
+    private idleMs: number,
+    private awayMs: number,
+    private onStatusChange: (client: Client, status: PresenceStatus) => void,
+    private now: () => number = Date.now
+  ) {}
+
+  // Record activity, bringing an idle or away client back
+  touch(client: Client) {
+    if (!client.projectId) return;
+    if (!client.presence) {
+      client.presence = { selections: [], status: 'active', lastActiveAt: this.now() };
+      return;
+    }
+    client.presence.lastActiveAt = this.now();
+    if (client.presence.status !== 'active') {
+      client.presence.status = 'active';
+      this.onStatusChange(client, 'active');
+    }
+  }
+
+  // Move clients that have gone quiet to idle or away
+  sweep(clients: Iterable<Client>, now = this.now()) {
+    for (const client of clients) {
+      const presence = client.presence;
+      if (!presence || !client.projectId) continue;
+      const quiet = now - presence.lastActiveAt;
+      const status: PresenceStatus = quiet >= this.awayMs ? 'away' : quiet >= this.idleMs ? 'idle' : 'active';
+      if (status === presence.status) continue;
+      presence.status = status;
+      if (status === 'away') {
+        presence.cursor = undefined;
+        presence.selections = [];
+      }
+      this.onStatusChange(client, status);
+    }
+  }
+}
+
+export function describePresence(session: Pick<ClusterSession, 'clientId' | 'userId' | 'userName' | 'role' | 'presence' | 'following'>): PresenceEntry {
+  const presence = session.presence;
+  return {
+    clientId: session.clientId,
+    userId: session.userId,
+    userName: session.userName,
+    role: session.role,
+    fileId: presence?.fileId,
+    cursor: presence?.cursor,
+    selections: presence?.selections ?? [],
+    viewport: presence?.viewport,
+    status: presence?.status ?? 'active',
+    lastActiveAt: presence && new Date(presence.lastActiveAt).toISOString(),
+    following: session.following
+  };
+}
+
+// Everyone's presence in a project, one entry per session. Sessions on other
+// nodes are as of their node's last heartbeat.
+export function presenceSnapshot(server: ServerContext, projectId: string): PresenceEntry[] {
+  const local = Array.from(server.projects.get(projectId) ?? [])
+    .map((clientId) => server.clients.get(clientId))
+    .filter((client): client is Client => client !== undefined)
+    .map((client) => describePresence({ ...client, clientId: client.id }));
+  return [...local, ...server.cluster.remoteSessions(projectId).map(describePresence)];
+}
+
+// Keep this node's followers in step with a project event on its way to them:
+// relay the followed user's moves, and stop following users who leave
+export function updateFollowers(server: ServerContext, projectId: string, message: Message) {
+  if (message.type !== 'cursor_moved' && message.type !== 'user_left') return;
+  const followedUserId = message.type === 'cursor_moved' ? message.payload.sourceUserId : message.payload.userId;
+
+  server.projects.get(projectId)?.forEach((clientId) => {
+    const follower = server.clients.get(clientId);
+    if (!follower || follower.following !== followedUserId) return;
+    if (message.type === 'user_left') {
+      follower.following = undefined;
+      server.sendMessage(follower, { type: 'follow_stopped', payload: { userId: followedUserId, reason: 'left' } });
+      return;
+    }
+    const { fileId, position, selections, viewport, sourceUserName } = message.payload;
+    server.sendMessage(follower, {
+      type: 'follow_update',
+      payload: { userId: followedUserId, userName: sourceUserName, fileId, cursor: position, selections, viewport }
+    });
+  });
+}
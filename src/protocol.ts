@@ -0,0 +1,467 @@
+import type { ContextSource, OmittedSource } from './ai/context.js';
+import type { AiProviderSummary } from './ai/registry.js';
+import type { AiSuggestion } from './ai/suggestions.js';
+import type { AiUsage } from './ai/types.js';
+import type { DailyAiUsage } from './ai/usage.js';
+import type { DocumentSnapshot, FileSummary, PatchObject } from './documents.js';
+import type { ProjectUser } from './membership.js';
+import type { PresenceEntry } from './presence.js';
+import type { ChatMention, StoredAiMessage, StoredAiThread, StoredAnnotationReply, StoredMember } from './storage/index.js';
+import type { ToolSummary } from './tools/registry.js';
+import { JsonSchema, validateSchema } from './tools/schema.js';
+import type { CursorPosition, PresenceStatus, ProjectRole, TextRange, Viewport } from './types.js';
+
+// --- Wire Protocol ---
+// Every message either side sends over the WebSocket, as TypeScript types plus
+// JSON Schemas for what clients send. Clients name the protocol version they
+// speak and the features they want when they authenticate; the server answers
+// with what it agreed to in auth_success. Clients that don't say speak version 1,
+// where errors are bare strings; from version 2 every error is an ErrorBody.
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Longest chat message accepted, in characters
+export const MAX_CHAT_MESSAGE_LENGTH = 10000;
+
+// Optional parts of the protocol. Events of a feature the client didn't ask for aren't sent to it.
+export const FEATURES = ['files', 'presence', 'chat', 'ai', 'annotations', 'recording', 'resume', 'reauthenticate', 'heartbeat'] as const;
+export type Feature = typeof FEATURES[number];
+
+const FEATURE_EVENTS: Partial<Record<ServerMessage['type'], Feature>> = {
+  file_created: 'files',
+  file_renamed: 'files',
+  file_deleted: 'files',
+  file_opened: 'files',
+  file_closed: 'files',
+  cursor_moved: 'presence',
+  presence_status_changed: 'presence',
+  follow_update: 'presence',
+  follow_stopped: 'presence',
+  new_chat_message: 'chat',
+  chat_message_edited: 'chat',
+  chat_message_deleted: 'chat',
+  chat_mention: 'chat',
+  ai_chunk: 'ai',
+  ai_thread_message: 'ai',
+  ai_thread_reply_failed: 'ai',
+  annotation_added: 'annotations',
+  annotation_replied: 'annotations',
+  annotation_resolved: 'annotations'
+};
+
+export type ErrorCode =
+  | 'invalid_message' // Not JSON, or doesn't match the message's schema
+  | 'unknown_message_type'
+  | 'unsupported_protocol_version'
+  | 'auth_required' // Sent something other than authenticate or resume first
+  | 'auth_failed'
+  | 'resume_failed'
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  | 'not_in_project'
+  | 'forbidden' // The caller's role or identity doesn't allow it
+  | 'not_found'
+  | 'already_exists'
+  | 'conflict' // Based on a stale revision; resync and retry
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'bad_request'
+  | 'upstream_error' // An AI provider failed
+  | 'internal_error';
+
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// A message that breaks the protocol, reported to the client as an ErrorBody.
+// `source` is what could be read of the offending message, to answer it with.
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    readonly source: { type?: string; requestId?: string } = {}
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+
+  toBody(): ErrorBody {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+// An error as a client speaking `version` expects it
+export function wireError(version: number, error: ErrorBody): ErrorBody | string {
+  return version >= 2 ? error : error.message;
+}
+
+// --- Client to server ---
+
+export interface ClientMessages {
+  authenticate: { token: string; protocolVersion?: number; features?: string[] };
+  resume: { resumeToken: string; lastSeq?: number; protocolVersion?: number };
+  reauthenticate: { token: string };
+  mcp_tool_call: { toolName: string; arguments?: Record<string, unknown> };
+  chat_message: { message: string; parentId?: string };
+  ack: { seq: number }; // Last replayable event received
+  ping: { timestamp?: number }; // Answered with pong
+}
+
+export type ClientMessage = {
+  [T in keyof ClientMessages]: { type: T; payload: ClientMessages[T]; requestId?: string };
+}[keyof ClientMessages];
+
+const versionSchema: JsonSchema = { type: 'integer', minimum: 1, description: 'Protocol version the client speaks (default 1)' };
+
+export const CLIENT_MESSAGE_SCHEMAS: Record<keyof ClientMessages, JsonSchema> = {
+  authenticate: {
+    type: 'object',
+    properties: {
+      token: { type: 'string', minLength: 1 },
+      protocolVersion: versionSchema,
+      features: { type: 'array', items: { type: 'string' }, description: 'Features the client wants (default all)' }
+    },
+    required: ['token']
+  },
+  resume: {
+    type: 'object',
+    properties: {
+      resumeToken: { type: 'string', minLength: 1 },
+      lastSeq: { type: 'integer', minimum: 0 },
+      protocolVersion: versionSchema
+    },
+    required: ['resumeToken']
+  },
+  reauthenticate: {
+    type: 'object',
+    properties: { token: { type: 'string', minLength: 1 } },
+    required: ['token']
+  },
+  mcp_tool_call: {
+    type: 'object',
+    properties: {
+      toolName: { type: 'string', minLength: 1 },
+      arguments: { type: 'object' }
+    },
+    required: ['toolName']
+  },
+  chat_message: {
+    type: 'object',
+    properties: {
+      message: { type: 'string', maxLength: MAX_CHAT_MESSAGE_LENGTH },
+      parentId: { type: 'string' }
+    },
+    required: ['message']
+  },
+  ack: {
+    type: 'object',
+    properties: { seq: { type: 'integer', minimum: 0 } },
+    required: ['seq']
+  },
+  ping: {
+    type: 'object',
+    properties: { timestamp: { type: 'number', description: 'Echoed back in the pong' } }
+  }
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isClientMessageType(type: string): type is keyof ClientMessages {
+  return Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, type);
+}
+
+// Parse and check a message from a client. Throws a ProtocolError if it isn't one.
+export function parseClientMessage(data: string): ClientMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new ProtocolError('invalid_message', 'Message is not valid JSON');
+  }
+  if (!isObject(message) || typeof message.type !== 'string') {
+    throw new ProtocolError('invalid_message', 'Message must be an object with a string type');
+  }
+  const requestId = typeof message.requestId === 'string' ? message.requestId : undefined;
+  const type = message.type;
+  if (!isClientMessageType(type)) {
+    throw new ProtocolError('unknown_message_type', `Unknown message type '${type}'`, undefined, { requestId });
+  }
+  const payload = message.payload ?? {};
+  const validationErrors = validateSchema(CLIENT_MESSAGE_SCHEMAS[type], payload, 'payload');
+  if (message.requestId !== undefined && requestId === undefined) {
+    validationErrors.push('requestId must be a string');
+  }
+  if (validationErrors.length > 0) {
+    throw new ProtocolError('invalid_message', `Invalid ${type} message: ${validationErrors.join('; ')}`, { validationErrors }, { type, requestId });
+  }
+  return { type, payload, requestId } as ClientMessage; // The payload matched the type's schema
+}
+
+// The version a client asked for, if the server speaks it. Throws a ProtocolError otherwise.
+export function negotiateVersion(requested = MIN_PROTOCOL_VERSION): number {
+  if (requested < MIN_PROTOCOL_VERSION || requested > PROTOCOL_VERSION) {
+    throw new ProtocolError('unsupported_protocol_version', `Protocol version ${requested} is not supported`, {
+      minVersion: MIN_PROTOCOL_VERSION,
+      maxVersion: PROTOCOL_VERSION
+    });
+  }
+  return requested;
+}
+
+// The features the client asked for that the server has; all of them if it didn't ask
+export function negotiateFeatures(requested?: string[]): Feature[] {
+  return requested === undefined ? [...FEATURES] : FEATURES.filter((feature) => requested.includes(feature));
+}
+
+// Whether a client that agreed to `features` gets this event
+export function wantsEvent(features: readonly Feature[] | undefined, type: ServerMessage['type']): boolean {
+  const feature = FEATURE_EVENTS[type];
+  return !features || !feature || features.includes(feature);
+}
+
+// --- Server to client ---
+
+export interface SessionJoinPayload {
+  userId: string;
+  userName: string;
+  role?: ProjectRole;
+  sessions: number; // The user's connections in the project, on every node
+}
+
+export interface FileEventPayload {
+  fileId: string;
+  userId: string;
+  userName: string;
+}
+
+export interface ChatMessagePayload {
+  id: string;
+  userId: string;
+  userName: string;
+  message: string; // Empty once deleted
+  timestamp: string;
+  parentId?: string;
+  mentions: ChatMention[];
+  editedAt?: string;
+  deletedAt?: string;
+}
+
+export interface AiMessagePayload {
+  id: string;
+  threadId: string;
+  role: StoredAiMessage['role'];
+  userId: string;
+  userName: string;
+  content: string;
+  provider?: string;
+  model?: string;
+  timestamp: string;
+  suggestions?: AiSuggestion[]; // Assistant replies only
+}
+
+export interface AnnotationPayload {
+  id: string;
+  fileId: string;
+  startLine: number; // 0-based, inclusive, in the file's current text
+  endLine: number;
+  start: number; // Characters [start, end) of the file's current text
+  end: number;
+  revision: number;
+  userId: string;
+  userName: string;
+  body: string;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  resolvedByName?: string;
+  replies: StoredAnnotationReply[];
+}
+
+export interface OpenFilePayload {
+  fileId: string;
+  revision: number;
+  users: { userId: string; userName: string }[];
+}
+
+export type AiThreadSummary = Omit<StoredAiThread, 'projectId'>;
+
+export interface AiRequestResult {
+  success: true;
+  provider: string;
+  model: string;
+  result: string; // The whole answer
+  suggestions: AiSuggestion[];
+  usage: AiUsage & { estimated: boolean }; // Estimated if the provider didn't report it
+  threadId?: string; // Shared requests and follow-ups
+  messageId?: string;
+  context: { budget: number; usedTokens: number; sources: ContextSource[]; omitted: OmittedSource[] };
+}
+
+// What each tool answers with when it succeeds
+export interface ToolResults {
+  'project:join': {
+    success: true;
+    message: string;
+    role: ProjectRole;
+    users: ProjectUser[];
+    presence: PresenceEntry[];
+    openFiles: OpenFilePayload[];
+  };
+  'project:leave': { success: true; projectId: string };
+  'project:members': { success: true; members: (Omit<StoredMember, 'projectId'> & { online: boolean })[] };
+  'project:invite': { success: true; userId: string; role: ProjectRole };
+  'project:kick': { success: true; userId: string };
+  'project:set_role': { success: true; userId: string; role: ProjectRole };
+  'tools:list': { success: true; tools: ToolSummary[] };
+
+  'file:list': { success: true; files: FileSummary[] };
+  'file:create': { success: true; fileId: string; revision: number };
+  'file:rename': { success: true; fileId: string; newFileId: string; revision: number };
+  'file:delete': { success: true; fileId: string };
+  'edit:send': { success: true; fileId: string; revision: number; rebased: boolean; changeData?: PatchObject[] }; // changeData as applied, if rebased
+  'file:open': { success: true } & DocumentSnapshot;
+  'file:snapshot': { success: true } & DocumentSnapshot;
+  'file:revision': {
+    success: true;
+    fileId: string;
+    revision: number;
+    currentRevision: number;
+    content: string;
+    userId?: string; // Who made the change, unless it has left the history
+    timestamp?: string;
+  };
+  'file:close': { success: true; fileId: string };
+
+  'annotation:add': { success: true; annotation: AnnotationPayload };
+  'annotation:reply': { success: true; annotationId: string; reply: StoredAnnotationReply };
+  'annotation:resolve': { success: true; annotation: AnnotationPayload };
+  'annotation:list': { success: true; annotations: AnnotationPayload[] };
+
+  'presence:snapshot': { success: true; presence: PresenceEntry[] };
+  'presence:follow': { success: true; following: string; presence: PresenceEntry[] };
+  'presence:unfollow': { success: true; stoppedFollowing?: string };
+
+  'chat:send': { success: true; message: ChatMessagePayload };
+  'chat:history': { success: true; messages: ChatMessagePayload[]; hasMore: boolean };
+  'chat:edit': { success: true; message: ChatMessagePayload };
+  'chat:delete': { success: true; messageId: string };
+
+  'ai:request': AiRequestResult;
+  'ai:request_openai': AiRequestResult;
+  'ai:request_anthropic': AiRequestResult;
+  'ai:providers': { success: true; providers: AiProviderSummary[] };
+  'ai:usage': { success: true; user: DailyAiUsage & { quota: number | null }; project: DailyAiUsage & { quota: number | null } };
+  'ai:threads': { success: true; threads: AiThreadSummary[] };
+  'ai:thread': { success: true; thread: AiThreadSummary; messages: AiMessagePayload[] };
+  'ai:apply_suggestion': { success: true; fileId: string; revision: number; changeData: PatchObject[] };
+
+  'recording:export': { success: true; events: string; count: number; lastSeq?: number; more: boolean }; // events as JSON lines
+  'recording:replay': { success: true; replayId: string | null; events: number; lastSeq?: number; more: boolean };
+  'recording:stop': { success: true; replayId: string | null };
+}
+
+export type ToolName = keyof ToolResults;
+export type ToolResult = ToolResults[ToolName];
+
+// A failed tool call: an ErrorBody from protocol version 2, before that the
+// message with the code and details alongside it
+export type ToolError = { error: ErrorBody } | ({ error: string; code: ErrorCode } & Record<string, unknown>);
+
+export interface ServerMessages {
+  auth_success: {
+    userId: string;
+    userName: string;
+    clientId: string;
+    resumeToken: string;
+    protocolVersion: number;
+    features: Feature[];
+    heartbeatIntervalMs: number; // The server pings this often; connections that don't pong are dropped
+  };
+  auth_failure: { error: ErrorBody | string };
+  resume_success: {
+    userId: string;
+    userName: string;
+    clientId: string;
+    projectId?: string;
+    role?: ProjectRole;
+    replayed: number;
+    complete: boolean; // False if some missed events were dropped; refetch files and chat history
+    protocolVersion: number;
+    features: Feature[];
+  };
+  resume_failure: { error: ErrorBody | string };
+  reauth_success: { userId: string; expiresAt?: string };
+  reauth_failure: { error: ErrorBody | string };
+  token_expiring: { expiresAt: string };
+  error: ErrorBody | string;
+  pong: { timestamp?: number; serverTime: string };
+  // ToolError when isError is set. Over MCP stdio, tools that don't answer,
+  // such as cursor:update, get { success: true }.
+  mcp_tool_response: ToolResult | ToolError | { success: true };
+
+  user_joined: SessionJoinPayload;
+  user_left: SessionJoinPayload;
+  user_sessions_changed: SessionJoinPayload;
+  member_role_changed: { userId: string; userName: string; role: ProjectRole; byUserId: string };
+  project_kicked: { projectId: string; byUserId: string; byUserName: string };
+  project_closed: { projectId: string; reason: string };
+
+  edit_applied: {
+    fileId: string;
+    changeData: PatchObject[];
+    revision: number;
+    sourceUserId: string;
+    sourceUserName: string;
+    aiSuggestion?: { threadId: string; messageId: string; suggestion: number };
+  };
+  file_created: FileEventPayload & { revision: number };
+  file_renamed: FileEventPayload & { newFileId: string; revision: number };
+  file_deleted: FileEventPayload;
+  file_opened: FileEventPayload;
+  file_closed: FileEventPayload;
+
+  cursor_moved: {
+    fileId: string;
+    position?: CursorPosition;
+    selections: TextRange[];
+    viewport?: Viewport;
+    clientId: string;
+    sourceUserId: string;
+    sourceUserName: string;
+  };
+  presence_status_changed: { clientId: string; userId: string; userName: string; status: PresenceStatus };
+  follow_update: { userId: string; userName: string; fileId: string; cursor?: CursorPosition; selections: TextRange[]; viewport?: Viewport };
+  follow_stopped: { userId: string; reason: 'left' };
+
+  new_chat_message: ChatMessagePayload;
+  chat_message_edited: ChatMessagePayload;
+  chat_message_deleted: { id: string; deletedAt: string };
+  chat_mention: { messageId: string; parentId?: string; fromUserId: string; fromUserName: string; message: string; timestamp: string };
+
+  ai_chunk: { provider: string; index: number; text: string; threadId?: string; messageId?: string };
+  ai_thread_message: { thread: { id: string; title: string }; message: AiMessagePayload; replyId?: string };
+  ai_thread_reply_failed: { threadId: string; messageId: string; error: string };
+
+  annotation_added: { annotation: AnnotationPayload };
+  annotation_replied: { annotationId: string; fileId: string; reply: StoredAnnotationReply };
+  annotation_resolved: { annotationId: string; fileId: string; resolved: boolean; userId: string; userName: string; timestamp: string };
+
+  replay_event: { replayId: string; seq: number; timestamp: string; type: string; payload: unknown };
+  replay_finished: { replayId: string; reason: 'completed' | 'stopped' | 'replaced' };
+}
+
+export type ServerMessage = {
+  [T in keyof ServerMessages]: {
+    type: T;
+    payload: ServerMessages[T];
+    requestId?: string; // The request this answers or streams progress for
+    seq?: number; // Per-connection sequence number of replayable events
+    isError?: boolean; // Tool responses only
+  };
+}[keyof ServerMessages];
@@ -0,0 +1,123 @@
+import { Logger } from './logger.js';
+import { ProjectEventQuery, Storage, StoredProjectEvent } from './storage/index.js';
+import { Message } from './types.js';
+
+// --- Session Recording ---
+// Every project event worth replaying is appended to the project's log in
+// storage, in the order it was broadcast. The log can be exported as JSON lines
+// or replayed to a client. Cursor moves are recorded as broadcast, already
+// coalesced per user; presence status changes are left out. Streamed AI chunks
+// are left out too: each finished AI request is recorded as an ai_response
+// with who asked, the provider, model and token usage, but not the prompt or
+// answer, which only the requester saw unless the request was shared (shared
+// replies are also recorded in full as ai_thread_message).
+
+export const RECORDED_EVENTS = new Set([
+  'edit_applied',
+  'new_chat_message',
+  'chat_message_edited',
+  'chat_message_deleted',
+  'file_opened',
+  'file_closed',
+  'file_created',
+  'file_renamed',
+  'file_deleted',
+  'user_joined',
+  'user_left',
+  'user_sessions_changed',
+  'member_role_changed',
+  'cursor_moved',
+  'ai_thread_message',
+  'ai_thread_reply_failed',
+  'ai_response', // Recorded through recordAiResponse, never broadcast
+  'annotation_added',
+  'annotation_replied',
+  'annotation_resolved'
+]);
+
+// A finished AI request, as recorded: who asked and what it cost, without the
+// prompt or answer
+export interface AiResponseRecord {
+  userId: string;
+  userName: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Token counts were estimated, not reported by the provider
+  chunks: number; // Streamed pieces of the answer
+  fileIds: string[]; // Files sent along as context
+  threadId?: string; // Set for shared requests
+  messageId?: string; // The reply in the shared thread
+}
+
+export class SessionRecorder {
+  constructor(private storage: Storage, private log: Logger, private enabled: boolean, private now: () => number = Date.now) {}
+
+  // Append a broadcast event to the project's log. Only the node that broadcast it records it.
+  record(projectId: string, message: Message) {
+    if (!RECORDED_EVENTS.has(message.type)) return;
+    this.append(projectId, message.type, message.payload);
+  }
+
+  // Append a finished AI request, shared or not, to the project's log
+  recordAiResponse(projectId: string, response: AiResponseRecord) {
+    this.append(projectId, 'ai_response', response);
+  }
+
+  private append(projectId: string, type: string, payload: unknown) {
+    if (!this.enabled) return;
+    this.storage.appendProjectEvent({
+      projectId,
+      type,
+      payload,
+      timestamp: new Date(this.now()).toISOString()
+    }).catch((error) => this.log.error('Failed to record project event', { projectId, type, error }));
+  }
+}
+
+// One JSON object per line, as served by the export endpoint and tool
+export function toJsonLines(events: StoredProjectEvent[]): string {
+  return events.map((event) => JSON.stringify(event) + '\n').join('');
+}
+
+export const MAX_RECORDING_EVENTS = 10000; // Per export page or replay
+
+export interface RecordingRange {
+  since?: string;
+  until?: string;
+  afterSeq?: number;
+  types?: string[];
+  limit?: number;
+}
+
+// Check a requested range and turn it into a storage query. Returns an error message if it is invalid.
+export function recordingQuery(range: RecordingRange): ProjectEventQuery | string {
+  for (const bound of ['since', 'until'] as const) {
+    const value = range[bound];
+    if (value !== undefined && isNaN(Date.parse(value))) {
+      return `${bound} must be an ISO timestamp`;
+    }
+  }
+  if (range.afterSeq !== undefined && (!Number.isInteger(range.afterSeq) || range.afterSeq < 0)) {
+    return 'afterSeq must be a non-negative integer';
+  }
+  if (range.limit !== undefined && (!Number.isInteger(range.limit) || range.limit < 1)) {
+    return 'limit must be a positive integer';
+  }
+  return {
+    since: range.since && new Date(range.since).toISOString(),
+    until: range.until && new Date(range.until).toISOString(),
+    afterSeq: range.afterSeq,
+    types: range.types,
+    limit: Math.min(range.limit ?? MAX_RECORDING_EVENTS, MAX_RECORDING_EVENTS)
+  };
+}
+
+// A page of a project's recording. `more` is set when events past the page remain.
+export async function readRecording(storage: Storage, projectId: string, query: ProjectEventQuery) {
+  const events = await storage.listProjectEvents(projectId, { ...query, limit: query.limit + 1 });
+  const more = events.length > query.limit;
+  if (more) events.pop();
+  return { events, more, lastSeq: events.length > 0 ? events[events.length - 1].seq : query.afterSeq };
+}
@@ -0,0 +1,56 @@
+import { JwtPayload } from './auth.js';
+import { Storage, StoredRevocation } from './storage/index.js';
+
+// --- Token Revocation ---
+// Revoked token IDs and user-wide revocations, kept in memory so every
+// authentication can be checked without waiting on storage. Token revocations
+// are forgotten once the token would have expired anyway.
+
+export class RevocationList {
+  private tokens = new Map<string, StoredRevocation>(); // jti -> revocation
+  private users = new Map<string, StoredRevocation>(); // userId -> latest user-wide revocation
+
+  constructor(private storage: Storage, private now: () => number = Date.now) {}
+
+  // Pick up revocations saved before a restart, or by other nodes sharing the database
+  async load() {
+    (await this.storage.listRevocations()).forEach((revocation) => this.remember(revocation));
+  }
+
+  // Revoke and save. The token stops working before the save completes.
+  async revoke(revocation: StoredRevocation) {
+    this.remember(revocation);
+    await this.storage.saveRevocation(revocation);
+  }
+
+  // Record a revocation that is already saved, e.g. one made on another node
+  remember(revocation: StoredRevocation) {
+    if (revocation.jti) {
+      this.tokens.set(revocation.jti, revocation);
+    } else if (revocation.userId) {
+      this.users.set(revocation.userId, revocation);
+    }
+  }
+
+  // Tokens without an issue time can't be told apart, so a user-wide revocation covers them all
+  isRevoked(token: Pick<JwtPayload, 'userId' | 'jti' | 'iat'>): boolean {
+    if (token.jti && this.tokens.has(token.jti)) return true;
+    const userRevocation = this.users.get(token.userId);
+    return userRevocation !== undefined && (token.iat === undefined || token.iat * 1000 <= Date.parse(userRevocation.revokedAt));
+  }
+
+  list(): StoredRevocation[] {
+    return [...this.users.values(), ...this.tokens.values()];
+  }
+
+  // Forget revocations of tokens that have expired since
+  async prune() {
+    const now = new Date(this.now()).toISOString();
+    this.tokens.forEach((revocation, jti) => {
+      if (revocation.expiresAt !== undefined && revocation.expiresAt < now) {
+        this.tokens.delete(jti);
+      }
+    });
+    await this.storage.deleteExpiredRevocations(now);
+  }
+}
@@ -0,0 +1,282 @@
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentSnapshot, makePatches, PatchObject } from '../documents.js';
+import {
+  ClientMessage,
+  ErrorBody,
+  ErrorCode,
+  Feature,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  ServerMessages,
+  ToolError,
+  ToolName,
+  ToolResults
+} from '../protocol.js';
+
+// --- Headless Client ---
+// A typed client for the WebSocket protocol, for bots, scripts and tests. It
+// authenticates, turns tool calls into promises and queues every event the
+// server sends, so an event that arrives before anyone waits for it isn't lost.
+
+export type ServerEventType = ServerMessage['type'];
+export type ServerEvent<T extends ServerEventType = ServerEventType> = Extract<ServerMessage, { type: T }>;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_QUEUED_EVENTS = 1000; // Oldest events are dropped past this
+
+// An error the server answered with: a failed tool call, authentication or resume
+export class ServerError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ServerError';
+  }
+}
+
+// Errors are ErrorBody objects from protocol version 2, strings before
+function toServerError(error: ErrorBody | string, fallback: ErrorCode = 'internal_error'): ServerError {
+  return typeof error === 'string' ? new ServerError(fallback, error) : new ServerError(error.code, error.message, error.details);
+}
+
+export interface ConnectOptions {
+  token: string; // Access token
+  protocolVersion?: number; // Default: the latest
+  features?: Feature[]; // Default: all of them
+  timeoutMs?: number; // For connecting, and the default for calls and waits (default 10 seconds)
+}
+
+interface PendingCall {
+  toolName: string;
+  resolve: (payload: ServerMessages['mcp_tool_response']) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Waiter {
+  matches: (event: ServerMessage) => boolean;
+  resolve: (event: ServerMessage) => void;
+}
+
+export class CollabClient {
+  readonly events: ServerMessage[] = []; // Received and not yet taken by waitFor, oldest first
+  private pending = new Map<string, PendingCall>(); // requestId -> tool call awaiting its response
+  private waiters: Waiter[] = [];
+  private closed: Promise<number>;
+
+  private constructor(
+    private ws: WebSocket,
+    readonly session: ServerMessages['auth_success'],
+    private timeoutMs: number
+  ) {
+    ws.on('message', (data) => this.receive(JSON.parse(data.toString())));
+    this.closed = new Promise((resolve) => ws.once('close', (code) => {
+      this.pending.forEach((call) => {
+        clearTimeout(call.timer);
+        call.reject(new Error(`Connection closed (${code}) before ${call.toolName} answered`));
+      });
+      this.pending.clear();
+      resolve(code);
+    }));
+  }
+
+  // Connect to a server at `url` (e.g. ws://localhost:3001) and authenticate.
+  // Rejects with a ServerError if the server turns the token down.
+  static connect(url: string, options: ConnectOptions): Promise<CollabClient> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        ws.terminate();
+        reject(error);
+      };
+      const timer = setTimeout(() => fail(new Error(`Timed out connecting to ${url}`)), timeoutMs);
+
+      ws.once('error', fail);
+      ws.once('open', () => {
+        send(ws, {
+          type: 'authenticate',
+          payload: { token: options.token, protocolVersion: options.protocolVersion ?? PROTOCOL_VERSION, features: options.features }
+        });
+      });
+      ws.once('message', (data) => {
+        const message = JSON.parse(data.toString()) as ServerMessage;
+        if (message.type === 'auth_success') {
+          clearTimeout(timer);
+          ws.off('error', fail);
+          resolve(new CollabClient(ws, message.payload, timeoutMs));
+        } else if (message.type === 'auth_failure') {
+          fail(toServerError(message.payload.error, 'auth_failed'));
+        } else {
+          fail(new Error(`Expected auth_success, got ${message.type}`));
+        }
+      });
+    });
+  }
+
+  get userId(): string {
+    return this.session.userId;
+  }
+
+  get clientId(): string {
+    return this.session.clientId;
+  }
+
+  // Call a tool and resolve with its response. Rejects with a ServerError if the tool fails.
+  call<N extends ToolName>(toolName: N, args?: Record<string, unknown>, timeoutMs?: number): Promise<ToolResults[N]>;
+  call(toolName: string, args?: Record<string, unknown>, timeoutMs?: number): Promise<unknown>;
+  call(toolName: string, args: Record<string, unknown> = {}, timeoutMs = this.timeoutMs): Promise<unknown> {
+    const requestId = uuidv4();
+    return new Promise<ServerMessages['mcp_tool_response']>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`Timed out waiting for ${toolName}`));
+      }, timeoutMs);
+      this.pending.set(requestId, { toolName, resolve, reject, timer });
+      this.send({ type: 'mcp_tool_call', payload: { toolName, arguments: args }, requestId });
+    });
+  }
+
+  // Call a tool that doesn't answer, such as presence:update
+  notify(toolName: string, args: Record<string, unknown> = {}) {
+    this.send({ type: 'mcp_tool_call', payload: { toolName, arguments: args } });
+  }
+
+  // Resolve with the first queued or future event of this type that matches,
+  // taking it off the queue
+  waitFor<T extends ServerEventType>(
+    type: T,
+    predicate: (event: ServerEvent<T>) => boolean = () => true,
+    timeoutMs = this.timeoutMs
+  ): Promise<ServerEvent<T>> {
+    const matches = (event: ServerMessage) => event.type === type && predicate(event as ServerEvent<T>);
+    return this.take(matches, type, timeoutMs) as Promise<ServerEvent<T>>;
+  }
+
+  // Queued events of one type, without taking them
+  eventsOf<T extends ServerEventType>(type: T): ServerEvent<T>[] {
+    return this.events.filter((event): event is ServerEvent<T> => event.type === type);
+  }
+
+  clearEvents() {
+    this.events.length = 0;
+  }
+
+  // Round trip to the server. Every event sent before the pong has arrived once this resolves.
+  async ping(): Promise<ServerMessages['pong']> {
+    const requestId = uuidv4();
+    this.send({ type: 'ping', payload: { timestamp: Date.now() }, requestId });
+    return (await this.waitFor('pong', (pong) => pong.requestId === requestId)).payload;
+  }
+
+  // Swap in a fresh access token for the same user, e.g. after token_expiring.
+  // Rejects with a ServerError if the server turns the token down.
+  async reauthenticate(token: string): Promise<ServerMessages['reauth_success']> {
+    const requestId = uuidv4();
+    this.send({ type: 'reauthenticate', payload: { token }, requestId });
+    const reply = await this.take(
+      (event) => event.requestId === requestId && (event.type === 'reauth_success' || event.type === 'reauth_failure'),
+      'reauthenticate',
+      this.timeoutMs
+    );
+    if (reply.type === 'reauth_failure') {
+      throw toServerError(reply.payload.error, 'auth_failed');
+    }
+    return (reply as ServerEvent<'reauth_success'>).payload;
+  }
+
+  async joinProject(projectId: string) {
+    return this.call('project:join', { projectId });
+  }
+
+  async leaveProject() {
+    return this.call('project:leave');
+  }
+
+  async openFile(fileId: string, content?: string): Promise<DocumentSnapshot> {
+    const { fileId: openedId, content: text, revision } = await this.call('file:open', { fileId, content });
+    return { fileId: openedId, content: text, revision };
+  }
+
+  // Send a patch made against `baseRevision`; resolves with the new revision
+  async sendEdit(fileId: string, changeData: PatchObject[], baseRevision?: number): Promise<{ fileId: string; revision: number; rebased: boolean }> {
+    const { fileId: editedId, revision, rebased } = await this.call('edit:send', { fileId, changeData, baseRevision });
+    return { fileId: editedId, revision, rebased };
+  }
+
+  // Send the change from one text of a file, as of `baseRevision`, to another
+  editText(fileId: string, from: string, to: string, baseRevision?: number) {
+    return this.sendEdit(fileId, makePatches(from, to), baseRevision);
+  }
+
+  async sendChat(message: string, parentId?: string) {
+    return this.call('chat:send', { message, parentId });
+  }
+
+  // Close the connection; resolves with the close code
+  close(): Promise<number> {
+    if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+      this.ws.close(1000);
+    }
+    return this.closed;
+  }
+
+  // Resolves with the close code once the server or client closes the connection
+  waitForClose(): Promise<number> {
+    return this.closed;
+  }
+
+  // Resolve with the first queued or future event that matches, taking it off the queue
+  private take(matches: (event: ServerMessage) => boolean, description: string, timeoutMs: number): Promise<ServerMessage> {
+    const index = this.events.findIndex(matches);
+    if (index !== -1) {
+      return Promise.resolve(this.events.splice(index, 1)[0]);
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        matches,
+        resolve: (event) => {
+          clearTimeout(timer);
+          resolve(event);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((other) => other !== waiter);
+        reject(new Error(`Timed out waiting for ${description}`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private send(message: ClientMessage) {
+    send(this.ws, message);
+  }
+
+  private receive(message: ServerMessage) {
+    const call = message.requestId ? this.pending.get(message.requestId) : undefined;
+    if (call && message.type === 'mcp_tool_response') {
+      this.pending.delete(message.requestId!);
+      clearTimeout(call.timer);
+      if (message.isError) {
+        const failure = message.payload as ToolError;
+        call.reject(toServerError(failure.error, 'code' in failure ? failure.code : undefined));
+      } else {
+        call.resolve(message.payload);
+      }
+      return;
+    }
+
+    const waiter = this.waiters.find((candidate) => candidate.matches(message));
+    if (waiter) {
+      this.waiters = this.waiters.filter((other) => other !== waiter);
+      waiter.resolve(message);
+      return;
+    }
+    this.events.push(message);
+    if (this.events.length > MAX_QUEUED_EVENTS) this.events.shift();
+  }
+}
+
+function send(ws: WebSocket, message: ClientMessage) {
+  ws.send(JSON.stringify(message));
+}
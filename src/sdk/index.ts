@@ -0,0 +1,15 @@
+export * from './client.js';
+export { PROTOCOL_VERSION, FEATURES } from '../protocol.js';
+export type {
+  AiRequestResult,
+  ClientMessage,
+  ClientMessages,
+  ErrorBody,
+  ErrorCode,
+  Feature,
+  ServerMessage,
+  ServerMessages,
+  ToolName,
+  ToolResult,
+  ToolResults
+} from '../protocol.js';
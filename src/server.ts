@@ -0,0 +1,1125 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import jwt from 'jsonwebtoken';
+import express from 'express';
+import cors from 'cors';
+import { Server as SocketIOServer } from 'socket.io';
+import http from 'http';
+import { ADMIN_ROOM, AdminOptions, adminStats, createAdminRouter, handleAdminSocket } from './admin.js';
+import { AiProviderRegistry, createAiProviders } from './ai/index.js';
+import { AiQuotas } from './ai/usage.js';
+import { AnnotationStore } from './annotations.js';
+import { InvalidTokenError, JwtPayload, loadVerificationKeys, TokenIssuer, VerificationKey, verifyToken } from './auth.js';
+import { Cluster, ClusterEnvelope, ClusterSession, createPubSub, PubSub } from './cluster/index.js';
+import { DocumentStore, MAX_HISTORY } from './documents.js';
+import { startStdioTransport, StdioStreams } from './mcpStdio.js';
+import { parseRateLimits, RateLimitConfig, RateLimited, rateLimitedDetails, RateLimiter } from './limits.js';
+import { Logger, LogLevel, parseLogLevel } from './logger.js';
+import { connectionsOf, followRemoteEvent, sessionCount } from './membership.js';
+import { createServerMetrics, Gauge } from './metrics.js';
+import { PresenceTracker, updateFollowers } from './presence.js';
+import {
+  ClientMessage,
+  ClientMessages,
+  ErrorBody,
+  ErrorCode,
+  FEATURES,
+  MIN_PROTOCOL_VERSION,
+  negotiateFeatures,
+  negotiateVersion,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ToolResult,
+  wantsEvent,
+  wireError
+} from './protocol.js';
+import { SessionRecorder } from './recording.js';
+import { RevocationList } from './revocations.js';
+import { SessionManager } from './sessions.js';
+import { createAiTools } from './tools/ai.js';
+import { createChatTools, handleChatMessage } from './tools/chat.js';
+import { createAnnotationTools } from './tools/annotations.js';
+import { createFileTools } from './tools/files.js';
+import { createPresenceTools } from './tools/presence.js';
+import { createProjectTools } from './tools/project.js';
+import { createRecordingTools } from './tools/recording.js';
+import { createStorage, Storage, StoredRevocation } from './storage/index.js';
+import { createTokenRouter } from './tokenApi.js';
+import { ToolRegistry } from './tools/registry.js';
+import { Client, ClientSocket, Message, ServerContext } from './types.js';
+
+// --- Server ---
+// The whole collaboration server (WebSocket transport, HTTP APIs, Socket.IO
+// admin room, cluster membership and timers) behind a factory, so it can be
+// started and stopped in process. src/index.ts runs one configured from the
+// environment; tests and bots can run their own with a custom config, AI
+// providers and clock.
+
+// The configuration can't be used, e.g. a required setting is missing
+export class ServerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServerConfigError';
+  }
+}
+
+export interface ServerConfig {
+  port: number; // WebSocket port; 0 picks a free one
+  webPort: number; // HTTP port for the APIs, metrics and Socket.IO; 0 picks a free one
+  jwtSecret: string;
+  jwtPublicKey?: string; // PEM public key for RS256/ES256 tokens
+  jwksFile?: string; // JWKS file with more token signing keys
+  tokenIssuerKey?: string; // Lets trusted backends have tokens issued at /api/auth/token
+  accessTokenTtlMs: number; // Lifetime of issued access tokens
+  refreshTokenTtlMs: number; // Lifetime of issued refresh tokens
+  authTimeoutMs: number; // How long a new connection has to authenticate
+  tokenExpiryWarningMs: number; // Warn a connection this long before its access token expires
+  tokenCheckIntervalMs: number; // How often connections' access tokens are checked for expiry
+  heartbeatIntervalMs: number; // How often sockets are pinged; one that hasn't answered the last ping is dropped
+  resumeGraceMs: number; // How long a dropped client can resume
+  adminStatsIntervalMs: number; // How often the admin room gets fresh stats
+  clusterHeartbeatMs: number; // How often nodes announce their sessions
+  clusterNodeTimeoutMs: number; // Silence before a node is presumed dead
+  presenceIdleMs: number; // Inactivity before a client shows as idle
+  presenceAwayMs: number; // Inactivity before it shows as away
+  presenceSweepMs: number; // How often quiet clients are checked
+  cursorBroadcastIntervalMs: number; // Shortest time between two broadcasts of one client's cursor
+  aiContextTokens: number; // Estimated tokens of project context (files, cursors, chat) sent with each AI request
+  aiQuotas: AiQuotas; // Daily AI token quotas; 0 for no limit
+  recordSessions: boolean; // Append every project event to its recording
+  databaseUrl?: string; // See createStorage; in memory if unset
+  redisUrl?: string; // See createPubSub; a single node if unset
+  rateLimits: RateLimitConfig;
+  logLevel: LogLevel;
+}
+
+type Env = Record<string, string | undefined>;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Read the configuration from environment variables (see .env.example).
+// Throws a ServerConfigError if a setting is missing or invalid.
+export function loadConfig(env: Env = process.env): ServerConfig {
+  if (!env.JWT_SECRET) {
+    throw new ServerConfigError('JWT_SECRET environment variable is not set.');
+  }
+  let logLevel: LogLevel;
+  try {
+    logLevel = parseLogLevel(env.LOG_LEVEL);
+  } catch (error) {
+    throw new ServerConfigError(`Invalid LOG_LEVEL: ${errorMessage(error)}`);
+  }
+  let rateLimits: RateLimitConfig;
+  try {
+    rateLimits = parseRateLimits(env.RATE_LIMITS);
+  } catch (error) {
+    throw new ServerConfigError(`Invalid RATE_LIMITS: ${errorMessage(error)}`);
+  }
+  const presenceIdleMs = parseInt(env.PRESENCE_IDLE_MS || '60000', 10);
+
+  return {
+    port: parseInt(env.PORT || '3001', 10),
+    webPort: parseInt(env.WEB_PORT || '3002', 10),
+    jwtSecret: env.JWT_SECRET,
+    jwtPublicKey: env.JWT_PUBLIC_KEY || undefined,
+    jwksFile: env.JWT_JWKS_FILE || undefined,
+    tokenIssuerKey: env.TOKEN_ISSUER_KEY || undefined,
+    accessTokenTtlMs: parseInt(env.ACCESS_TOKEN_TTL_MS || '900000', 10),
+    refreshTokenTtlMs: parseInt(env.REFRESH_TOKEN_TTL_MS || '2592000000', 10),
+    authTimeoutMs: 10000,
+    tokenExpiryWarningMs: 60000,
+    tokenCheckIntervalMs: 5000,
+    heartbeatIntervalMs: parseInt(env.HEARTBEAT_INTERVAL_MS || '30000', 10),
+    resumeGraceMs: parseInt(env.RESUME_GRACE_MS || '30000', 10),
+    adminStatsIntervalMs: 10000,
+    clusterHeartbeatMs: parseInt(env.CLUSTER_HEARTBEAT_MS || '5000', 10),
+    clusterNodeTimeoutMs: parseInt(env.CLUSTER_NODE_TIMEOUT_MS || '15000', 10),
+    presenceIdleMs,
+    presenceAwayMs: parseInt(env.PRESENCE_AWAY_MS || '300000', 10),
+    presenceSweepMs: Math.min(5000, presenceIdleMs),
+    cursorBroadcastIntervalMs: parseInt(env.CURSOR_BROADCAST_INTERVAL_MS || '50', 10),
+    aiContextTokens: parseInt(env.AI_CONTEXT_TOKENS || '6000', 10),
+    aiQuotas: {
+      userDailyTokens: parseInt(env.AI_DAILY_USER_TOKENS || '200000', 10),
+      projectDailyTokens: parseInt(env.AI_DAILY_PROJECT_TOKENS || '1000000', 10)
+    },
+    // In memory, a recording would only grow until the server restarts
+    recordSessions: env.RECORD_SESSIONS ? env.RECORD_SESSIONS !== 'false' : Boolean(env.DATABASE_URL),
+    databaseUrl: env.DATABASE_URL || undefined,
+    redisUrl: env.REDIS_URL || undefined,
+    rateLimits,
+    logLevel
+  };
+}
+
+// Replacements for what the server would otherwise build from its config
+export interface ServerOptions {
+  ai?: AiProviderRegistry; // Default: the providers configured in the environment (see createAiProviders)
+  storage?: Storage; // Default: from databaseUrl
+  pubsub?: PubSub; // Default: from redisUrl
+  log?: Logger; // Default: JSON lines at logLevel
+  now?: () => number; // Clock in milliseconds for token expiry, presence, rate limits and AI quotas (default Date.now)
+}
+
+// Where a started server is listening
+export interface ServerAddress {
+  port: number;
+  webPort: number;
+}
+
+export interface CollabServer {
+  context: ServerContext; // Live state and helpers, as tools see them
+  start(): Promise<ServerAddress>;
+  stop(): Promise<void>; // Closes every connection, the ports, the cluster and storage
+  // Serve MCP over stdin/stdout (or the given streams) as the given user; onClose runs when the input ends
+  attachStdio(identity: { userId: string; userName: string }, onClose: () => void, streams?: StdioStreams): Client;
+}
+
+// Build a server. Nothing listens until start(). Throws a ServerConfigError if
+// the config can't be used.
+export function createServer(config: ServerConfig, options: ServerOptions = {}): CollabServer {
+  const log = options.log ?? new Logger(config.logLevel);
+  const now = options.now ?? Date.now;
+  const metrics = createServerMetrics();
+
+  let verificationKeys: VerificationKey[];
+  try {
+    verificationKeys = loadVerificationKeys(config.jwtSecret, config.jwtPublicKey, config.jwksFile);
+  } catch (error) {
+    throw new ServerConfigError(`Invalid JWT_PUBLIC_KEY or JWT_JWKS_FILE: ${errorMessage(error)}`);
+  }
+  const tokenIssuer = new TokenIssuer(config.jwtSecret, config.accessTokenTtlMs, config.refreshTokenTtlMs, now);
+
+  let storage: Storage;
+  try {
+    storage = options.storage ?? createStorage(config.databaseUrl);
+  } catch (error) {
+    throw new ServerConfigError(`Could not open storage: ${errorMessage(error)}`);
+  }
+
+  let ai: AiProviderRegistry;
+  try {
+    ai = options.ai ?? createAiProviders();
+  } catch (error) {
+    throw new ServerConfigError(`Invalid AI provider configuration: ${errorMessage(error)}`);
+  }
+  const aiProviders = ai.list();
+  log.info(aiProviders.length > 0 ? 'AI providers configured' : 'No AI providers configured', {
+    providers: aiProviders.map(({ name, model, isDefault }) => ({ name, model, isDefault }))
+  });
+
+  const limits = new RateLimiter(config.rateLimits, now);
+
+  let pubsub: PubSub;
+  try {
+    pubsub = options.pubsub ?? createPubSub(config.redisUrl, log);
+  } catch (error) {
+    throw new ServerConfigError(`Invalid REDIS_URL: ${errorMessage(error)}`);
+  }
+
+  // --- Server State ---
+  // Live connections and membership stay in memory; anything that must survive
+  // a restart is written through to storage
+  const clients = new Map<string, Client>(); // Map client ID to Client object
+  const projects = new Map<string, Set<string>>(); // Map project ID to Set of client IDs
+  const tools = new ToolRegistry();
+  const cluster = new Cluster(pubsub, {
+    heartbeatMs: config.clusterHeartbeatMs,
+    nodeTimeoutMs: config.clusterNodeTimeoutMs,
+    localSessions,
+    onEvent: handleClusterEvent,
+    onNodeLost: handleNodeLost,
+    log
+  });
+  const presence = new PresenceTracker(config.presenceIdleMs, config.presenceAwayMs, (client, status) => {
+    broadcast(client.projectId!, {
+      type: 'presence_status_changed',
+      payload: { clientId: client.id, userId: client.userId, userName: client.userName, status }
+    });
+    cluster.announce();
+  }, now);
+  const sessionManager = new SessionManager(config.resumeGraceMs, (client) => {
+    clientLog(client).info('Resume window expired');
+    removeClient(client);
+  });
+
+  // Server copy of every file being edited, per project. Every change is saved.
+  const documents = new DocumentStore((projectId, document, change) => {
+    storage.saveDocument(
+      { projectId, fileId: document.fileId, content: document.content, revision: document.revision },
+      change && { projectId, fileId: document.fileId, ...change }
+    ).catch((error) => log.error('Failed to save document', { projectId, fileId: document.fileId, error }));
+    if (change) annotations.applyChange(projectId, document.fileId, change);
+  }, now);
+  // Review annotations on those files, anchored to the text they were made on
+  const annotations = new AnnotationStore((annotation) => {
+    storage.saveAnnotation(annotation)
+      .catch((error) => log.error('Failed to save annotation', { projectId: annotation.projectId, annotationId: annotation.id, error }));
+  }, now);
+  const projectLoads = new Map<string, Promise<void>>(); // Projects currently being restored from storage
+  const revocations = new RevocationList(storage, now);
+  const recorder = new SessionRecorder(storage, log, config.recordSessions, now);
+  const expiryWarned = new WeakSet<object>(); // Tokens whose connection was already warned they are about to expire
+  const awaitingPong = new WeakSet<WebSocket>(); // Sockets pinged since they last showed signs of life
+
+  // Live state, read whenever /metrics is scraped
+  metrics.registry.register(new Gauge('collab_connections', 'Authenticated connections, by state', ['state'], () => {
+    const connected = Array.from(clients.values()).filter((client) => client.ws.readyState === WebSocket.OPEN).length;
+    return [
+      { labels: { state: 'connected' }, value: connected },
+      { labels: { state: 'resuming' }, value: clients.size - connected } // Dropped, waiting to resume
+    ];
+  }));
+  metrics.registry.register(new Gauge('collab_projects_active', 'Projects with at least one connection', [], () => [{ value: projects.size }]));
+  metrics.registry.register(new Gauge('collab_open_documents', 'Documents open in at least one editor', [], () =>
+    [{ value: Array.from(projects.keys()).reduce((total, projectId) => total + documents.listOpen(projectId).length, 0) }]));
+
+  // Setup Express server for web interface
+  const app = express();
+  app.use(cors());
+  app.use(express.json());
+
+  // Create HTTP server for Socket.IO
+  const httpServer = http.createServer(app);
+  const io = new SocketIOServer(httpServer, {
+    cors: {
+      origin: '*',
+      methods: ['GET', 'POST']
+    }
+  });
+
+  // --- Express API Routes ---
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', clients: clients.size, projects: projects.size });
+  });
+
+  app.get('/metrics', (req, res) => {
+    res.type('text/plain; version=0.0.4').send(metrics.registry.render());
+  });
+
+  // --- WebSocket Server Setup ---
+  // Sockets are accepted on their own port, which answers anything but an upgrade with 426
+  const wss = new WebSocketServer({ noServer: true });
+  const wsHttpServer = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Upgrade Required');
+  });
+  wsHttpServer.on('upgrade', (req, socket, head) => {
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws) => {
+    const connectionId = uuidv4(); // Temporary ID for the connection before auth
+    let client: Client | null = null; // Client object created upon successful auth
+    const connectionLog = log.child({ connectionId });
+    connectionLog.debug('Connection attempt');
+
+    // Authentication Timeout
+    const authTimeout = setTimeout(() => {
+      if (!client || !client.isAuthenticated) {
+        connectionLog.info('Authentication timeout. Closing.');
+        metrics.authFailures.inc({ reason: 'timeout' });
+        ws.close(1008, 'Authentication timeout'); // 1008 = Policy Violation
+      }
+    }, config.authTimeoutMs);
+
+    ws.on('message', (messageBuffer) => {
+      awaitingPong.delete(ws); // Any message shows the connection is alive
+      const messageLog = client ? clientLog(client) : connectionLog;
+      let message: ClientMessage;
+      try {
+        message = parseClientMessage(messageBuffer.toString());
+      } catch (error) {
+        const invalid = error instanceof ProtocolError ? error : new ProtocolError('invalid_message', 'Invalid message format');
+        const { type, requestId } = invalid.source; // Set if the type is known
+        metrics.messagesReceived.inc({ type: type ?? 'unknown' });
+        messageLog.warn('Rejected message', { type, code: invalid.code, error: invalid.message });
+        const version = client?.protocolVersion ?? MIN_PROTOCOL_VERSION;
+        if (type === 'authenticate' && !client) {
+          clearTimeout(authTimeout);
+          metrics.authFailures.inc({ reason: 'invalid_token' });
+          sendFailure(ws, version, 'auth_failure', invalid.toBody(), requestId);
+          ws.close(1008, 'Authentication failed');
+        } else if (type === 'resume' && !client) {
+          metrics.authFailures.inc({ reason: 'resume' });
+          sendFailure(ws, version, 'resume_failure', invalid.toBody(), requestId);
+        } else if (type === 'reauthenticate' && client) {
+          sendFailure(ws, version, 'reauth_failure', invalid.toBody(), requestId);
+        } else {
+          sendFailure(ws, version, 'error', invalid.toBody(), requestId);
+        }
+        return;
+      }
+      metrics.messagesReceived.inc({ type: message.type });
+      messageLog.debug('Received message', { type: message.type, requestId: message.requestId });
+
+      try {
+        // --- Authentication Check ---
+        if (!client || !client.isAuthenticated) {
+          if (message.type === 'authenticate') {
+            clearTimeout(authTimeout); // Clear timeout on receiving auth message
+            try {
+              client = handleAuthenticate(ws, connectionId, message.payload);
+              clientLog(client).info('Client authenticated', { userName: client.userName, protocolVersion: client.protocolVersion });
+              clients.set(client.id, client); // Add to authenticated clients map
+              notifyAdmins(client, 'connected');
+              const resumeToken = sessionManager.start(client);
+              // Send success message
+              sendMessage(client, {
+                type: 'auth_success',
+                payload: {
+                  userId: client.userId,
+                  userName: client.userName,
+                  clientId: client.id,
+                  resumeToken,
+                  protocolVersion: client.protocolVersion,
+                  features: client.features ?? [...FEATURES],
+                  heartbeatIntervalMs: config.heartbeatIntervalMs
+                },
+                requestId: message.requestId
+              });
+            } catch (authError) {
+              const failure = authError instanceof ProtocolError ? authError : new ProtocolError('auth_failed', 'Authentication failed');
+              connectionLog.warn('Authentication failed', { code: failure.code, error: failure.message });
+              metrics.authFailures.inc({ reason: failure.code === 'auth_failed' ? 'invalid_token' : 'protocol_version' });
+              sendFailure(ws, requestedVersion(message.payload.protocolVersion), 'auth_failure', failure.toBody(), message.requestId);
+              ws.close(1008, 'Authentication failed');
+            }
+          } else if (message.type === 'resume') {
+            client = handleResume(ws, message.payload);
+            if (client) {
+              clearTimeout(authTimeout);
+            }
+          } else {
+            // Message received before authentication
+            connectionLog.warn('Message received before authentication. Ignoring.', { type: message.type });
+            sendFailure(ws, MIN_PROTOCOL_VERSION, 'error', { code: 'auth_required', message: 'Authentication required' }, message.requestId);
+          }
+          return; // Do not process further messages until authenticated
+        }
+
+        // --- Authenticated Message Handling Logic ---
+        switch (message.type) {
+          case 'mcp_tool_call':
+            handleMcpToolCall(client, message.payload, message.requestId);
+            break;
+          case 'chat_message': {
+            const limited = limits.take('chat', client);
+            if (limited) {
+              sendRateLimited(client, limited, message.requestId);
+              break;
+            }
+            presence.touch(client);
+            handleChatMessage(server, message.payload, { client, requestId: message.requestId, log: messageLog.child({ requestId: message.requestId }) });
+            break;
+          }
+          case 'reauthenticate':
+            handleReauthenticate(client, message.payload, message.requestId);
+            break;
+          case 'ack':
+            sessionManager.acknowledge(client, message.payload.seq);
+            break;
+          case 'ping':
+            sendMessage(client, {
+              type: 'pong',
+              payload: { timestamp: message.payload.timestamp, serverTime: new Date(now()).toISOString() },
+              requestId: message.requestId
+            });
+            break;
+          case 'authenticate':
+          case 'resume':
+            sendFailure(ws, client.protocolVersion, 'error', { code: 'bad_request', message: 'Already authenticated; use reauthenticate to change tokens' }, message.requestId);
+            break;
+        }
+      } catch (error) {
+        (client ? clientLog(client) : connectionLog).warn('Failed to process message', { error });
+        sendFailure(ws, client?.protocolVersion ?? MIN_PROTOCOL_VERSION, 'error', { code: 'internal_error', message: 'Failed to process message' }, message.requestId);
+      }
+    });
+
+    ws.on('pong', () => {
+      awaitingPong.delete(ws);
+    });
+
+    ws.on('close', () => {
+      clearTimeout(authTimeout); // Clear timeout if connection closes before auth
+      (client ? clientLog(client) : connectionLog).info('Client disconnected');
+
+      // Keep the client in its project for a while in case it reconnects. If the
+      // session was already resumed on a new socket, or the client was removed
+      // (e.g. its token was revoked), there is nothing to do.
+      if (client && client.isAuthenticated && client.ws === ws && clients.has(client.id)) {
+        sessionManager.park(client);
+        notifyAdmins(client, 'disconnected');
+      }
+      // No specific cleanup needed for unauthenticated connections other than logging
+    });
+
+    ws.on('error', (error) => {
+      clearTimeout(authTimeout);
+      (client ? clientLog(client) : connectionLog).error('WebSocket error', { error });
+      // Ensure cleanup happens even on error - 'close' event will handle it
+      ws.close();
+    });
+  });
+
+  // --- Project Loading ---
+
+  // Restore a project's documents and annotations from storage the first time it is used after a restart
+  function loadProject(projectId: string): Promise<void> {
+    if (documents.hasProject(projectId)) return Promise.resolve();
+
+    let load = projectLoads.get(projectId);
+    if (!load) {
+      load = (async () => {
+        const stored = await storage.listDocuments(projectId);
+        const loaded = await Promise.all(stored.map(async (document) => ({
+          fileId: document.fileId,
+          content: document.content,
+          revision: document.revision,
+          history: await storage.listRevisions(projectId, document.fileId, document.revision - MAX_HISTORY)
+        })));
+        const storedAnnotations = await storage.listAnnotations(projectId);
+        documents.loadProject(projectId, loaded);
+        annotations.loadProject(projectId, storedAnnotations, loaded);
+        if (loaded.length > 0) {
+          log.info('Restored project documents', { projectId, documents: loaded.length });
+        }
+      })().finally(() => projectLoads.delete(projectId));
+      projectLoads.set(projectId, load);
+    }
+    return load;
+  }
+
+  // --- Client Cleanup ---
+
+  // Remove a client from its current project, closing the project if it was the last member
+  function leaveProject(client: Client) {
+    const projectId = client.projectId;
+    if (!projectId) return;
+
+    const projectClients = projects.get(projectId);
+    documents.closeAll(projectId, client.id);
+    client.projectId = undefined;
+    client.presence = undefined;
+    client.following = undefined;
+    const role = client.role;
+    client.role = undefined;
+    if (projectClients) {
+      projectClients.delete(client.id); // Membership is tracked per connection
+      cluster.announce();
+      if (projectClients.size === 0) {
+        projects.delete(projectId);
+        documents.closeProject(projectId);
+        annotations.closeProject(projectId);
+        log.info('Project closed', { projectId });
+      }
+      // Others may still be in the project on other nodes
+      const sessions = sessionCount(server, projectId, client.userId);
+      // Only announce the user as gone once their last session leaves
+      broadcast(projectId, { 
+        type: sessions === 0 ? 'user_left' : 'user_sessions_changed', 
+        payload: { 
+          userId: client.userId, 
+          userName: client.userName,
+          role,
+          sessions
+        } 
+      }, client); // Exclude sender
+    }
+  }
+
+  // Remove an authenticated client from its project and the clients map
+  function removeClient(client: Client) {
+    sessionManager.end(client);
+    leaveProject(client);
+    if (clients.delete(client.id)) { // Remove from authenticated clients map
+      notifyAdmins(client, 'removed');
+    }
+  }
+
+  // --- Socket.IO Setup ---
+  io.on('connection', (socket) => {
+    log.debug('Socket.IO client connected', { socketId: socket.id });
+
+    // Handle admin monitoring connections
+    handleAdminSocket(socket, server, adminOptions);
+
+    socket.on('disconnect', () => {
+      log.debug('Socket.IO client disconnected', { socketId: socket.id });
+    });
+  });
+
+  // --- Authentication Handler ---
+
+  // Verify the token and agree on a protocol version and features. Throws a
+  // ProtocolError to send back in auth_failure.
+  function handleAuthenticate(ws: WebSocket, connectionId: string, payload: ClientMessages['authenticate']): Client {
+    const protocolVersion = negotiateVersion(payload.protocolVersion);
+
+    let decoded: JwtPayload;
+    try {
+      decoded = authenticateToken(payload.token);
+    } catch (err) {
+      if (err instanceof jwt.JsonWebTokenError || err instanceof InvalidTokenError) {
+        throw new ProtocolError('auth_failed', `Authentication failed: ${err.message}`);
+      }
+      throw new ProtocolError('auth_failed', 'Authentication failed: Unable to verify token');
+    }
+
+    return {
+      ws: ws,
+      id: connectionId, // Use the initial connection ID as the client's unique ID for this session
+      userId: decoded.userId,
+      userName: decoded.userName,
+      isAuthenticated: true,
+      protocolVersion,
+      features: payload.features && negotiateFeatures(payload.features),
+      projectId: undefined, // Not joined yet
+      projectRoles: decoded.projectRoles,
+      token: tokenInfo(decoded)
+    };
+  }
+
+  // Verify an access token and make sure it hasn't been revoked
+  function authenticateToken(token: string): JwtPayload {
+    const decoded = verifyToken(token, verificationKeys, now());
+    if (revocations.isRevoked(decoded)) {
+      throw new InvalidTokenError('Token has been revoked');
+    }
+    return decoded;
+  }
+
+  // The parts of an access token that still matter once a connection is authenticated
+  function tokenInfo({ jti, iat, exp }: JwtPayload): Client['token'] {
+    return { jti, iat, exp };
+  }
+
+  // Swap in a fresh access token for the same user without reconnecting. On
+  // failure the connection carries on with its current token until it expires.
+  function handleReauthenticate(client: Client, payload: ClientMessages['reauthenticate'], requestId?: string) {
+    let decoded: JwtPayload;
+    try {
+      decoded = authenticateToken(payload.token);
+      if (decoded.userId !== client.userId) {
+        throw new Error(`Token is for ${decoded.userId}, not ${client.userId}`);
+      }
+    } catch (error) {
+      clientLog(client).warn('Reauthentication failed', { error: error instanceof Error ? error.message : error });
+      metrics.authFailures.inc({ reason: 'reauthenticate' });
+      const message = error instanceof Error ? error.message : 'Reauthentication failed';
+      sendFailure(client.ws, client.protocolVersion, 'reauth_failure', { code: 'auth_failed', message }, requestId);
+      return;
+    }
+
+    client.token = tokenInfo(decoded);
+    client.projectRoles = decoded.projectRoles; // Takes effect the next time the client joins a project
+    clientLog(client).info('Client reauthenticated');
+    sendMessage(client, {
+      type: 'reauth_success',
+      payload: { userId: client.userId, expiresAt: decoded.exp === undefined ? undefined : new Date(decoded.exp * 1000).toISOString() },
+      requestId
+    });
+  }
+
+  // Revoke tokens on every node: save the revocation, then close the connections using them
+  async function revokeTokens(revocation: StoredRevocation): Promise<number> {
+    await revocations.revoke(revocation);
+    cluster.publish({ type: 'revocation', revocation });
+    log.info('Tokens revoked', { jti: revocation.jti, userId: revocation.userId, reason: revocation.reason });
+    return disconnectRevoked();
+  }
+
+  // Close this node's connections whose access token has been revoked
+  function disconnectRevoked(): number {
+    let closed = 0;
+    clients.forEach((client) => {
+      if (!client.token || !revocations.isRevoked({ userId: client.userId, ...client.token })) return;
+      clientLog(client).info('Closing connection: access token revoked');
+      removeClient(client);
+      client.ws.close(4003, 'Access token revoked');
+      closed++;
+    });
+    return closed;
+  }
+
+  // Warn connections whose access token is about to expire, and close those whose token has
+  function checkTokenExpiry(at = now()) {
+    clients.forEach((client) => {
+      const token = client.token;
+      if (!token?.exp) return;
+      const expiresAt = token.exp * 1000;
+      if (expiresAt <= at) {
+        clientLog(client).info('Closing connection: access token expired');
+        removeClient(client);
+        client.ws.close(4002, 'Access token expired');
+      } else if (expiresAt - at <= config.tokenExpiryWarningMs && !expiryWarned.has(token)) {
+        expiryWarned.add(token);
+        sendMessage(client, { type: 'token_expiring', payload: { expiresAt: new Date(expiresAt).toISOString() } });
+      }
+    });
+  }
+
+  // --- Session Resume Handler ---
+
+  // Reattach a reconnecting socket to its previous client, then replay the events
+  // it missed. On failure the socket stays open so it can authenticate afresh.
+  // The session keeps the protocol version and features agreed when it authenticated
+  function handleResume(ws: WebSocket, payload: ClientMessages['resume']): Client | null {
+    const { resumeToken, lastSeq = 0 } = payload;
+    const resumed = sessionManager.resume(resumeToken, ws, lastSeq);
+    if (!resumed) {
+      metrics.authFailures.inc({ reason: 'resume' });
+      sendFailure(ws, requestedVersion(payload.protocolVersion), 'resume_failure', { code: 'resume_failed', message: 'Session expired; authenticate again' });
+      return null;
+    }
+
+    const { client, replay, complete } = resumed;
+    clientLog(client).info('Client resumed', { replayed: replay.length, complete });
+    notifyAdmins(client, 'resumed');
+    sendMessage(client, {
+      type: 'resume_success',
+      payload: {
+        userId: client.userId,
+        userName: client.userName,
+        clientId: client.id,
+        projectId: client.projectId,
+        role: client.role,
+        replayed: replay.length,
+        complete, // False if some missed events were dropped; refetch files and chat history
+        protocolVersion: client.protocolVersion,
+        features: client.features ?? [...FEATURES]
+      }
+    });
+    replay.forEach((event) => ws.send(JSON.stringify(event)));
+    return client;
+  }
+
+  // --- Tool Call Handler ---
+
+  async function handleMcpToolCall(client: Client, payload: ClientMessages['mcp_tool_call'], requestId?: string) {
+    // Assumes client is authenticated by the time this is called
+    const { toolName, arguments: args = {} } = payload;
+    const callLog = clientLog(client).child({ requestId, tool: toolName });
+    callLog.debug('Handling MCP tool call');
+
+    const tool = tools.get(toolName);
+    if (!tool) {
+      metrics.toolCalls.inc({ tool: 'unknown', outcome: 'not_found' });
+      sendError(client, 'unknown_tool', `MCP tool '${toolName}' not implemented`, requestId);
+      return;
+    }
+
+    if (tool.rateLimit !== false) {
+      const limited = limits.take(tool.rateLimit ?? 'tool', client);
+      if (limited) {
+        metrics.toolCalls.inc({ tool: tool.name, outcome: 'rate_limited' });
+        sendRateLimited(client, limited, requestId, callLog);
+        return;
+      }
+    }
+    presence.touch(client);
+
+    // Wait for any in-flight exclusive call (e.g. project:join) so this call sees its outcome
+    while (client.exclusiveCall) {
+      await client.exclusiveCall;
+    }
+
+    const run = (async () => {
+      const rejection = tools.check(tool, client, args);
+      if (rejection) {
+        metrics.toolCalls.inc({ tool: tool.name, outcome: 'rejected' });
+        sendError(client, rejection.code, rejection.error, requestId, rejection.validationErrors && { validationErrors: rejection.validationErrors });
+        return;
+      }
+      const start = process.hrtime.bigint();
+      try {
+        await tool.handler(args, { client, requestId, log: callLog });
+        metrics.toolCalls.inc({ tool: tool.name, outcome: 'ok' });
+      } catch (error) {
+        callLog.error('Tool failed', { error });
+        metrics.toolCalls.inc({ tool: tool.name, outcome: 'error' });
+        sendError(client, 'internal_error', `Tool '${toolName}' failed`, requestId);
+      } finally {
+        metrics.toolCallDuration.observeSince({ tool: tool.name }, start);
+      }
+    })();
+
+    if (tool.exclusive) {
+      client.exclusiveCall = run;
+      run.finally(() => {
+        if (client.exclusiveCall === run) client.exclusiveCall = undefined;
+      });
+    }
+    await run;
+  }
+
+  // --- Utility Functions ---
+
+  function sendResponse(client: Client, payload: ToolResult, requestId?: string) {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      metrics.messagesSent.inc({ type: 'mcp_tool_response' });
+      client.ws.send(JSON.stringify({ 
+        type: 'mcp_tool_response', 
+        payload, 
+        requestId 
+      }));
+    }
+  }
+
+  // Version 1 clients get the message as `error` with the code and details alongside it
+  function sendError(client: Client, code: ErrorCode, error: string, requestId?: string, details?: Record<string, unknown>) {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      metrics.messagesSent.inc({ type: 'mcp_tool_response' });
+      client.ws.send(JSON.stringify({ 
+        type: 'mcp_tool_response', 
+        payload: client.protocolVersion >= 2 ? { error: { code, message: error, details } } : { error, code, ...details },
+        isError: true, 
+        requestId 
+      }));
+    }
+  }
+
+  // Reject a message with an error, or with the failure reply of the message type,
+  // in the form the connection's protocol version expects
+  function sendFailure(
+    ws: ClientSocket,
+    version: number,
+    type: 'error' | 'auth_failure' | 'resume_failure' | 'reauth_failure',
+    error: ErrorBody,
+    requestId?: string
+  ) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    const body = wireError(version, error);
+    const message: Message = type === 'error' ? { type, payload: body, requestId } : { type, payload: { error: body }, requestId };
+    metrics.messagesSent.inc({ type });
+    ws.send(JSON.stringify(message));
+  }
+
+  // The protocol version to answer a not-yet-authenticated connection in: the one
+  // it asked for, or the closest the server speaks
+  function requestedVersion(version = MIN_PROTOCOL_VERSION): number {
+    return Math.min(Math.max(version, MIN_PROTOCOL_VERSION), PROTOCOL_VERSION);
+  }
+
+  function sendRateLimited(client: Client, limited: RateLimited, requestId?: string, callLog = clientLog(client)) {
+    callLog.warn('Rate limited', { ...limited });
+    metrics.rateLimited.inc({ limit: limited.limit, scope: limited.scope });
+    sendError(client, 'rate_limited', `Rate limit exceeded for ${limited.limit}; try again in ${Math.ceil(limited.retryAfterMs / 1000)}s`, requestId, rateLimitedDetails(limited));
+  }
+
+  // Broadcast message to all connections in a specific project, on every node, optionally excluding one client
+  function broadcast(projectId: string, message: Message, excludeClient?: Client) {
+    cluster.publish({ type: 'broadcast', projectId, message, excludeClientId: excludeClient?.id });
+    deliverToProject(projectId, message, excludeClient?.id);
+    recorder.record(projectId, message);
+
+    // Also broadcast to admin panel via Socket.IO
+    emitToAdmins('project:update', {
+      projectId,
+      eventType: message.type,
+      timestamp: new Date(now()).toISOString()
+    });
+  }
+
+  // Deliver a project event to this node's connections in the project
+  function deliverToProject(projectId: string, message: Message, excludeClientId?: string) {
+    const projectClientIds = projects.get(projectId);
+    if (!projectClientIds) return;
+    const start = process.hrtime.bigint();
+    let recipients = 0;
+
+    // Iterate through all authenticated clients to find the project's connections
+    clients.forEach((client) => {
+      // Check if client is authenticated, belongs to the target project, and is not the excluded client
+      if (client.isAuthenticated && client.projectId === projectId && projectClientIds.has(client.id)) {
+        if (client.id === excludeClientId || !wantsEvent(client.features, message.type)) {
+          return; // Skip the excluded client, and clients that didn't ask for this kind of event
+        }
+        sessionManager.deliver(client, message);
+        recipients++;
+      }
+    });
+    metrics.messagesSent.inc({ type: message.type }, recipients);
+    metrics.broadcastRecipients.inc({ type: message.type }, recipients);
+    metrics.broadcastDuration.observeSince({ type: message.type }, start);
+    updateFollowers(server, projectId, message);
+  }
+
+  // Tell the admin room about a connection coming or going. 'disconnected'
+  // clients can still resume; 'removed' ones are gone.
+  function notifyAdmins(client: Client, event: 'connected' | 'disconnected' | 'resumed' | 'removed') {
+    emitToAdmins('connection:update', {
+      event,
+      clientId: client.id,
+      userId: client.userId,
+      userName: client.userName,
+      projectId: client.projectId,
+      timestamp: new Date(now()).toISOString()
+    });
+  }
+
+  // Logger whose lines carry the client's connection and user
+  function clientLog(client: Client): Logger {
+    return log.child({ connectionId: client.id, userId: client.userId });
+  }
+
+  // Send a message to a single connection
+  function sendMessage(client: Client, message: Message) {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      metrics.messagesSent.inc({ type: message.type });
+      client.ws.send(JSON.stringify(message));
+    }
+  }
+
+  // Emit an event to the Socket.IO admin room on every node
+  function emitToAdmins(event: string, data: unknown) {
+    cluster.publish({ type: 'admin', event, data });
+    io.to(ADMIN_ROOM).emit(event, data);
+  }
+
+  // Send a message to every connection a user has open in a project, on every node
+  function sendToUser(projectId: string, userId: string, message: Message) {
+    cluster.publish({ type: 'user', projectId, userId, message });
+    deliverToUser(projectId, userId, message);
+  }
+
+  function deliverToUser(projectId: string, userId: string, message: Message) {
+    clients.forEach((client) => {
+      if (client.isAuthenticated && client.projectId === projectId && client.userId === userId && wantsEvent(client.features, message.type)) {
+        sessionManager.deliver(client, message);
+        metrics.messagesSent.inc({ type: message.type });
+      }
+    });
+  }
+
+  // --- Cluster ---
+
+  // This node's sessions, as announced to other nodes. Clients waiting to resume are still in their project.
+  function localSessions(): ClusterSession[] {
+    const sessions: ClusterSession[] = [];
+    clients.forEach((client) => {
+      if (client.projectId) {
+        sessions.push({
+          clientId: client.id,
+          projectId: client.projectId,
+          userId: client.userId,
+          userName: client.userName,
+          role: client.role,
+          presence: client.presence,
+          following: client.following
+        });
+      }
+    });
+    return sessions;
+  }
+
+  // Deliver events published by other nodes to the connections here
+  function handleClusterEvent(event: ClusterEnvelope) {
+    metrics.clusterEventsReceived.inc({ type: event.type });
+    switch (event.type) {
+      case 'broadcast':
+        deliverToProject(event.projectId, event.message, event.excludeClientId);
+        followRemoteEvent(server, event);
+        break;
+      case 'user':
+        deliverToUser(event.projectId, event.userId, event.message);
+        followRemoteEvent(server, event);
+        break;
+      case 'admin':
+        io.to(ADMIN_ROOM).emit(event.event, event.data);
+        break;
+      case 'revocation':
+        revocations.remember(event.revocation);
+        disconnectRevoked();
+        break;
+    }
+  }
+
+  // A node went away along with its sessions. Tell the connections here who
+  // left, as that node can no longer do so.
+  function handleNodeLost(nodeId: string, lost: ClusterSession[]) {
+    const users = new Map<string, ClusterSession>(); // One announcement per user and project
+    lost.forEach((session) => users.set(`${session.projectId}:${session.userId}`, session));
+    users.forEach(({ projectId, userId, userName, role }) => {
+      const sessions = sessionCount(server, projectId, userId);
+      deliverToProject(projectId, {
+        type: sessions === 0 ? 'user_left' : 'user_sessions_changed',
+        payload: { userId, userName, role, sessions }
+      });
+    });
+    io.to(ADMIN_ROOM).emit('cluster:node_lost', { nodeId, sessions: lost.length, timestamp: new Date(now()).toISOString() });
+  }
+
+  // --- Tool Registration ---
+  const server: ServerContext = {
+    config,
+    clients,
+    projects,
+    documents,
+    annotations,
+    storage,
+    tools,
+    ai,
+    limits,
+    log,
+    metrics,
+    cluster,
+    presence,
+    recorder,
+    now,
+    loadProject,
+    broadcast,
+    sendToUser,
+    sendMessage,
+    sendResponse,
+    sendError,
+    leaveProject
+  };
+
+  tools.register(
+    ...createProjectTools(server),
+    ...createFileTools(server),
+    ...createAnnotationTools(server),
+    ...createPresenceTools(server),
+    ...createChatTools(server),
+    ...createAiTools(server),
+    ...createRecordingTools(server)
+  );
+
+  // --- Admin API ---
+  const adminOptions: AdminOptions = {
+    verifyToken: authenticateToken,
+    disconnect: (client) => {
+      removeClient(client);
+      client.ws.close(4001, 'Disconnected by an administrator');
+    },
+    revocations,
+    revoke: revokeTokens,
+    startedAt: now()
+  };
+  app.use('/api/admin', createAdminRouter(server, adminOptions));
+
+  // --- Token API ---
+  app.use('/api/auth', createTokenRouter(server, {
+    issuer: tokenIssuer,
+    issuerKey: config.tokenIssuerKey,
+    verifyToken: authenticateToken,
+    revocations,
+    revoke: revokeTokens
+  }));
+
+  // --- Timers ---
+  const timers: NodeJS.Timeout[] = [];
+  const every = (intervalMs: number, task: () => void) => {
+    timers.push(setInterval(task, intervalMs).unref());
+  };
+
+  // Listen on a port, resolving with the one actually used (port 0 picks a free one)
+  const listen = (target: http.Server, port: number) => new Promise<number>((resolve, reject) => {
+    target.once('error', reject);
+    target.listen(port, () => {
+      target.off('error', reject);
+      resolve((target.address() as { port: number }).port);
+    });
+  });
+
+  const close = (target: { close(callback: (error?: Error) => void): unknown }) => new Promise<void>((resolve) => {
+    target.close(() => resolve()); // Already closed is fine
+  });
+
+  return {
+    context: server,
+
+    async start() {
+      // Revoked tokens must be refused from the first connection, so a server
+      // that can't read them doesn't start
+      try {
+        await revocations.load();
+      } catch (error) {
+        throw new Error(`Could not load token revocations: ${errorMessage(error)}`);
+      }
+
+      // Push fresh stats to connected admins
+      every(config.adminStatsIntervalMs, () => {
+        emitToAdmins('admin:stats', adminStats(server, adminOptions));
+      });
+
+      // Close connections whose access token expired, after a warning
+      every(config.tokenCheckIntervalMs, () => {
+        checkTokenExpiry();
+      });
+
+      // Forget revocations of tokens that have expired anyway
+      every(60 * 60 * 1000, () => {
+        revocations.prune().catch((error) => log.error('Failed to prune token revocations', { error }));
+      });
+
+      // Drop sockets that stopped answering pings without ever closing, e.g. after a
+      // network change. Closing them lets their session wait to be resumed as usual.
+      every(config.heartbeatIntervalMs, () => {
+        wss.clients.forEach((ws) => {
+          if (awaitingPong.has(ws)) {
+            log.info('Terminating connection that missed a heartbeat');
+            metrics.heartbeatTimeouts.inc();
+            ws.terminate();
+            return;
+          }
+          awaitingPong.add(ws);
+          ws.ping();
+        });
+      });
+
+      // Turn quiet clients idle, then away
+      every(config.presenceSweepMs, () => {
+        presence.sweep(clients.values(), now());
+      });
+
+      cluster.start().catch((error) => log.error('Could not join the cluster', { error }));
+
+      const port = await listen(wsHttpServer, config.port);
+      log.info('WebSocket server started', { port });
+      const webPort = await listen(httpServer, config.webPort);
+      log.info('HTTP server listening', { port: webPort });
+      return { port, webPort };
+    },
+
+    async stop() {
+      timers.splice(0).forEach((timer) => clearInterval(timer));
+      clients.forEach((client) => {
+        removeClient(client);
+        client.ws.close(1001, 'Server shutting down');
+      });
+      wss.clients.forEach((ws) => ws.terminate()); // Including connections that never authenticated
+
+      await close(wss);
+      log.info('WebSocket server closed.');
+      await close(wsHttpServer);
+      io.close(); // Also closes the HTTP server
+      await close(httpServer);
+      log.info('HTTP server closed.');
+      await cluster.close().catch((error) => log.error('Failed to leave the cluster', { error }));
+      await storage.close().catch((error) => log.error('Failed to close storage', { error }));
+    },
+
+    // Lets Cursor list and call the server's tools directly when it launches the
+    // server from its MCP settings
+    attachStdio(identity, onClose, streams = {}) {
+      const stdioClient = startStdioTransport({
+        ...identity,
+        ...streams,
+        registerClient: (client) => clients.set(client.id, client),
+        unregisterClient: removeClient,
+        listTools: () => tools.list(),
+        handleToolCall: handleMcpToolCall,
+        log,
+        onClose
+      });
+      clientLog(stdioClient).info('MCP stdio transport ready', { userName: stdioClient.userName });
+      return stdioClient;
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { Client, ClientSocket, Message } from './types.js';
+
+// --- Session Resume ---
+// Each authenticated WebSocket connection gets a resume token. When the socket
+// drops, the client stays in its project for a grace window while the events it
+// misses are buffered. Reconnecting with the token within the window swaps in the
+// new socket and replays everything after the last sequence number it saw.
+
+// Events worth replaying; anything else (e.g. cursor moves) is only sent live
+const REPLAYABLE_EVENTS = new Set([
+  'edit_applied',
+  'new_chat_message',
+  'chat_message_edited',
+  'chat_message_deleted',
+  'chat_mention',
+  'file_opened',
+  'file_closed',
+  'file_created',
+  'file_renamed',
+  'file_deleted',
+  'user_joined',
+  'user_left',
+  'user_sessions_changed',
+  'member_role_changed',
+  'ai_thread_message',
+  'ai_thread_reply_failed',
+  'annotation_added',
+  'annotation_replied',
+  'annotation_resolved',
+  'project_kicked',
+  'project_closed'
+]);
+
+const MAX_BUFFERED_EVENTS = 1000;
+
+export interface Session {
+  resumeToken: string;
+  seq: number; // Last sequence number assigned to an event for this client
+  buffer: Message[]; // Unacknowledged replayable events, oldest first
+  droppedThrough: number; // Highest unacknowledged seq dropped because the buffer was full
+  graceTimer?: NodeJS.Timeout; // Set while the client is disconnected
+}
+
+export interface ResumeResult {
+  client: Client;
+  replay: Message[]; // Events after lastSeq, oldest first
+  complete: boolean; // False if some missed events were no longer buffered
+}
+
+export class SessionManager {
+  private byToken = new Map<string, Client>();
+
+  constructor(private graceMs: number, private onExpire: (client: Client) => void) {}
+
+  // Start a session for a newly authenticated client, returning its resume token
+  start(client: Client): string {
+    const resumeToken = crypto.randomBytes(32).toString('hex');
+    client.session = { resumeToken, seq: 0, buffer: [], droppedThrough: 0 };
+    this.byToken.set(resumeToken, client);
+    return resumeToken;
+  }
+
+  // Send a project event to a client, numbering and buffering it for replay
+  deliver(client: Client, message: Message) {
+    const session = client.session;
+    let outgoing = message;
+    if (session && REPLAYABLE_EVENTS.has(message.type)) {
+      session.seq += 1;
+      outgoing = { ...message, seq: session.seq };
+      session.buffer.push(outgoing);
+      if (session.buffer.length > MAX_BUFFERED_EVENTS) {
+        const dropped = session.buffer.shift()!;
+        session.droppedThrough = dropped.seq!;
+      }
+    }
+    if (client.ws.readyState === 1) { // WebSocket.OPEN
+      client.ws.send(JSON.stringify(outgoing));
+    }
+  }
+
+  // The client has processed every event up to and including `seq`
+  acknowledge(client: Client, seq: number) {
+    const session = client.session;
+    if (!session) return;
+    while (session.buffer.length > 0 && session.buffer[0].seq! <= seq) {
+      session.buffer.shift();
+    }
+  }
+
+  // The client's socket closed; keep it around until the grace window ends
+  park(client: Client) {
+    const session = client.session;
+    if (!session) {
+      this.onExpire(client);
+      return;
+    }
+    clearTimeout(session.graceTimer);
+    session.graceTimer = setTimeout(() => {
+      this.end(client);
+      this.onExpire(client);
+    }, this.graceMs);
+  }
+
+  // Attach a new socket to the session holding `resumeToken`. Returns undefined
+  // if the token is unknown or its grace window has ended.
+  resume(resumeToken: string, ws: ClientSocket, lastSeq: number): ResumeResult | undefined {
+    const client = this.byToken.get(resumeToken);
+    const session = client?.session;
+    if (!client || !session) return undefined;
+
+    clearTimeout(session.graceTimer);
+    session.graceTimer = undefined;
+
+    const previous = client.ws;
+    client.ws = ws;
+    if (previous !== ws && previous.readyState === 1) {
+      // The old socket never reported closing; the new one takes over
+      previous.close(4000, 'Session resumed on another connection');
+    }
+
+    this.acknowledge(client, lastSeq);
+    return {
+      client,
+      replay: session.buffer.slice(),
+      complete: session.droppedThrough <= lastSeq
+    };
+  }
+
+  // Forget a client's session, e.g. when it is removed for good
+  end(client: Client) {
+    const session = client.session;
+    if (!session) return;
+    clearTimeout(session.graceTimer);
+    this.byToken.delete(session.resumeToken);
+    client.session = undefined;
+  }
+}
@@ -0,0 +1,23 @@
+import { MemoryStorage } from './memory.js';
+import { SqliteStorage } from './sqlite.js';
+import { Storage } from './types.js';
+
+export * from './types.js';
+export { MemoryStorage, SqliteStorage };
+
+// Pick a storage backend from DATABASE_URL:
+//   (unset) or memory:          in-memory, nothing survives a restart
+//   sqlite:./data/kleo.db       SQLite file (also sqlite://path and file:path)
+export function createStorage(databaseUrl?: string): Storage {
+  if (!databaseUrl || databaseUrl === 'memory:') {
+    return new MemoryStorage();
+  }
+
+  const sqliteMatch = /^(?:sqlite|file):(?:\/\/)?(.+)$/.exec(databaseUrl);
+  if (sqliteMatch) {
+    return new SqliteStorage(sqliteMatch[1]);
+  }
+
+  const scheme = databaseUrl.split(':')[0];
+  throw new Error(`Unsupported DATABASE_URL scheme '${scheme}'. Use sqlite:<path> or leave it unset for in-memory storage.`);
+}
@@ -0,0 +1,298 @@
+import { MAX_HISTORY } from '../documents.js';
+import { MAX_RECORDING_EVENTS } from '../recording.js';
+import {
+  AiUsageQuery,
+  AiUsageTotal,
+  ChatQuery,
+  MemberUpdate,
+  ProjectEventQuery,
+  Storage,
+  StoredAiMessage,
+  StoredAiThread,
+  StoredAiUsage,
+  StoredAnnotation,
+  StoredChatMessage,
+  StoredDocument,
+  StoredMember,
+  StoredProjectEvent,
+  StoredRevision,
+  StoredRevocation
+} from './types.js';
+
+function copyMessage(message: StoredChatMessage): StoredChatMessage {
+  return { ...message, mentions: message.mentions.map((mention) => ({ ...mention })) };
+}
+
+function copyAnnotation(annotation: StoredAnnotation): StoredAnnotation {
+  return { ...annotation, replies: annotation.replies.map((reply) => ({ ...reply })) };
+}
+
+// Keeps everything in process memory. Used when DATABASE_URL is not set;
+// state is lost when the server restarts.
+export class MemoryStorage implements Storage {
+  private projects = new Set<string>();
+  private members = new Map<string, Map<string, StoredMember>>(); // projectId -> userId -> member
+  private chat = new Map<string, StoredChatMessage[]>(); // projectId -> messages, oldest first
+  private aiThreads = new Map<string, Map<string, StoredAiThread>>(); // projectId -> threadId -> thread
+  private aiMessages = new Map<string, StoredAiMessage[]>(); // projectId -> messages of every thread, oldest first
+  private aiUsage: StoredAiUsage[] = []; // Oldest first
+  private documents = new Map<string, Map<string, StoredDocument>>(); // projectId -> fileId -> document
+  private revisions = new Map<string, StoredRevision[]>(); // `${projectId}\0${fileId}` -> latest MAX_HISTORY revisions, oldest first
+  private annotations = new Map<string, Map<string, StoredAnnotation>>(); // projectId -> annotationId -> annotation, oldest first
+  private events = new Map<string, StoredProjectEvent[]>(); // projectId -> latest MAX_RECORDING_EVENTS recorded events, oldest first
+  private eventSeq = 0;
+  private revocations = new Map<string, StoredRevocation>(); // `token:${jti}` or `user:${userId}` -> revocation
+
+  async saveProject(projectId: string) {
+    this.projects.add(projectId);
+  }
+
+  async listProjects() {
+    return Array.from(this.projects);
+  }
+
+  async saveMember(member: MemberUpdate, seen: boolean) {
+    let projectMembers = this.members.get(member.projectId);
+    if (!projectMembers) {
+      projectMembers = new Map();
+      this.members.set(member.projectId, projectMembers);
+    }
+    const now = new Date().toISOString();
+    const existing = projectMembers.get(member.userId);
+    projectMembers.set(member.userId, {
+      ...member,
+      joinedAt: existing?.joinedAt ?? now,
+      lastSeenAt: seen || !existing ? now : existing.lastSeenAt
+    });
+  }
+
+  async addFirstMember(member: MemberUpdate) {
+    if (this.members.get(member.projectId)?.size) return false;
+    await this.saveMember(member, true);
+    return true;
+  }
+
+  async getMember(projectId: string, userId: string) {
+    const member = this.members.get(projectId)?.get(userId);
+    return member && { ...member };
+  }
+
+  async removeMember(projectId: string, userId: string) {
+    this.members.get(projectId)?.delete(userId);
+  }
+
+  async listMembers(projectId: string) {
+    return Array.from(this.members.get(projectId)?.values() ?? []).map((member) => ({ ...member }));
+  }
+
+  async appendChatMessage(message: StoredChatMessage) {
+    let messages = this.chat.get(message.projectId);
+    if (!messages) {
+      messages = [];
+      this.chat.set(message.projectId, messages);
+    }
+    messages.push(copyMessage(message));
+  }
+
+  async getChatMessage(projectId: string, messageId: string) {
+    const message = this.chat.get(projectId)?.find((candidate) => candidate.id === messageId);
+    return message && copyMessage(message);
+  }
+
+  async updateChatMessage(message: StoredChatMessage) {
+    const stored = this.chat.get(message.projectId)?.find((candidate) => candidate.id === message.id);
+    if (stored) {
+      stored.message = message.message;
+      stored.mentions = message.mentions.map((mention) => ({ ...mention }));
+      stored.editedAt = message.editedAt;
+      stored.deletedAt = message.deletedAt;
+    }
+  }
+
+  async listChatMessages(projectId: string, query: ChatQuery) {
+    const messages = this.chat.get(projectId) ?? [];
+    let end = messages.length;
+    if (query.before !== undefined) {
+      const index = messages.findIndex((message) => message.id === query.before);
+      end = index === -1 ? 0 : index;
+    }
+    const matching = messages.slice(0, end)
+      .filter((message) => query.parentId === undefined || message.parentId === query.parentId);
+    return matching.slice(Math.max(0, matching.length - query.limit)).map(copyMessage);
+  }
+
+  async saveAiThread(thread: StoredAiThread) {
+    let threads = this.aiThreads.get(thread.projectId);
+    if (!threads) {
+      threads = new Map();
+      this.aiThreads.set(thread.projectId, threads);
+    }
+    threads.set(thread.id, { ...thread });
+  }
+
+  async getAiThread(projectId: string, threadId: string) {
+    const thread = this.aiThreads.get(projectId)?.get(threadId);
+    return thread && { ...thread };
+  }
+
+  async listAiThreads(projectId: string) {
+    return Array.from(this.aiThreads.get(projectId)?.values() ?? [])
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((thread) => ({ ...thread }));
+  }
+
+  async appendAiMessage(message: StoredAiMessage) {
+    let messages = this.aiMessages.get(message.projectId);
+    if (!messages) {
+      messages = [];
+      this.aiMessages.set(message.projectId, messages);
+    }
+    messages.push({ ...message });
+  }
+
+  async getAiMessage(projectId: string, messageId: string) {
+    const message = this.aiMessages.get(projectId)?.find((candidate) => candidate.id === messageId);
+    return message && { ...message };
+  }
+
+  async listAiMessages(projectId: string, threadId: string) {
+    return (this.aiMessages.get(projectId) ?? [])
+      .filter((message) => message.threadId === threadId)
+      .map((message) => ({ ...message }));
+  }
+
+  async recordAiUsage(usage: StoredAiUsage) {
+    this.aiUsage.push({ ...usage });
+  }
+
+  async summarizeAiUsage(query: AiUsageQuery) {
+    const totals = new Map<string, AiUsageTotal>();
+    for (const usage of this.aiUsage) {
+      if (usage.timestamp < query.since) continue;
+      if (query.projectId !== undefined && usage.projectId !== query.projectId) continue;
+      if (query.userId !== undefined && usage.userId !== query.userId) continue;
+      const key = `${usage.provider}\0${usage.model}`;
+      let total = totals.get(key);
+      if (!total) {
+        total = { provider: usage.provider, model: usage.model, requests: 0, inputTokens: 0, outputTokens: 0 };
+        totals.set(key, total);
+      }
+      total.requests += 1;
+      total.inputTokens += usage.inputTokens;
+      total.outputTokens += usage.outputTokens;
+    }
+    return Array.from(totals.values());
+  }
+
+  async saveDocument(document: StoredDocument, change?: StoredRevision) {
+    let files = this.documents.get(document.projectId);
+    if (!files) {
+      files = new Map();
+      this.documents.set(document.projectId, files);
+    }
+    files.set(document.fileId, { ...document });
+
+    if (change) {
+      const key = `${change.projectId}\0${change.fileId}`;
+      let history = this.revisions.get(key);
+      if (!history) {
+        history = [];
+        this.revisions.set(key, history);
+      }
+      history.push({ ...change });
+      if (history.length > MAX_HISTORY) {
+        history.splice(0, history.length - MAX_HISTORY);
+      }
+    }
+  }
+
+  async listDocuments(projectId: string) {
+    return Array.from(this.documents.get(projectId)?.values() ?? []).map((document) => ({ ...document }));
+  }
+
+  async listRevisions(projectId: string, fileId: string, sinceRevision: number, limit?: number) {
+    const history = this.revisions.get(`${projectId}\0${fileId}`) ?? [];
+    return history.filter((entry) => entry.revision > sinceRevision).slice(0, limit).map((entry) => ({ ...entry }));
+  }
+
+  async renameDocument(projectId: string, fileId: string, newFileId: string) {
+    const files = this.documents.get(projectId);
+    const document = files?.get(fileId);
+    if (files && document) {
+      files.delete(fileId);
+      files.set(newFileId, { ...document, fileId: newFileId });
+    }
+    const history = this.revisions.get(`${projectId}\0${fileId}`);
+    this.revisions.delete(`${projectId}\0${fileId}`);
+    if (history) {
+      this.revisions.set(`${projectId}\0${newFileId}`, history.map((entry) => ({ ...entry, fileId: newFileId })));
+    }
+    this.annotations.get(projectId)?.forEach((annotation) => {
+      if (annotation.fileId === fileId) annotation.fileId = newFileId;
+    });
+  }
+
+  async deleteDocument(projectId: string, fileId: string) {
+    this.documents.get(projectId)?.delete(fileId);
+    this.revisions.delete(`${projectId}\0${fileId}`);
+    const annotations = this.annotations.get(projectId);
+    annotations?.forEach((annotation, id) => {
+      if (annotation.fileId === fileId) annotations.delete(id);
+    });
+  }
+
+  async saveAnnotation(annotation: StoredAnnotation) {
+    let annotations = this.annotations.get(annotation.projectId);
+    if (!annotations) {
+      annotations = new Map();
+      this.annotations.set(annotation.projectId, annotations);
+    }
+    annotations.set(annotation.id, copyAnnotation(annotation));
+  }
+
+  async listAnnotations(projectId: string) {
+    return Array.from(this.annotations.get(projectId)?.values() ?? []).map(copyAnnotation);
+  }
+
+  async appendProjectEvent(event: Omit<StoredProjectEvent, 'seq'>) {
+    let events = this.events.get(event.projectId);
+    if (!events) {
+      events = [];
+      this.events.set(event.projectId, events);
+    }
+    events.push({ ...event, seq: ++this.eventSeq });
+    if (events.length > MAX_RECORDING_EVENTS) {
+      events.splice(0, events.length - MAX_RECORDING_EVENTS);
+    }
+  }
+
+  async listProjectEvents(projectId: string, query: ProjectEventQuery) {
+    return (this.events.get(projectId) ?? [])
+      .filter((event) => (query.afterSeq === undefined || event.seq > query.afterSeq)
+        && (query.since === undefined || event.timestamp >= query.since)
+        && (query.until === undefined || event.timestamp <= query.until)
+        && (query.types === undefined || query.types.includes(event.type)))
+      .slice(0, query.limit)
+      .map((event) => ({ ...event }));
+  }
+
+  async saveRevocation(revocation: StoredRevocation) {
+    this.revocations.set(revocation.jti ? `token:${revocation.jti}` : `user:${revocation.userId}`, { ...revocation });
+  }
+
+  async listRevocations() {
+    return Array.from(this.revocations.values()).map((revocation) => ({ ...revocation }));
+  }
+
+  async deleteExpiredRevocations(before: string) {
+    this.revocations.forEach((revocation, key) => {
+      if (revocation.expiresAt !== undefined && revocation.expiresAt < before) {
+        this.revocations.delete(key);
+      }
+    });
+  }
+
+  async close() {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,681 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { ProjectRole } from '../types.js';
+import {
+  AiUsageQuery,
+  AiUsageTotal,
+  ChatQuery,
+  MemberUpdate,
+  ProjectEventQuery,
+  Storage,
+  StoredAiMessage,
+  StoredAiThread,
+  StoredAiUsage,
+  StoredAnnotation,
+  StoredChatMessage,
+  StoredDocument,
+  StoredMember,
+  StoredProjectEvent,
+  StoredRevision,
+  StoredRevocation
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS projects (
+    project_id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS project_members (
+    project_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    role TEXT NOT NULL,
+    joined_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    PRIMARY KEY (project_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    project_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    message TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    parent_id TEXT,
+    mentions TEXT NOT NULL, -- JSON array of mentions
+    edited_at TEXT,
+    deleted_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS chat_messages_project ON chat_messages (project_id, seq);
+
+  CREATE TABLE IF NOT EXISTS ai_threads (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_by_name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ai_threads_project ON ai_threads (project_id, updated_at);
+
+  CREATE TABLE IF NOT EXISTS ai_messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    thread_id TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    provider TEXT,
+    model TEXT,
+    timestamp TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ai_messages_thread ON ai_messages (thread_id, seq);
+
+  CREATE TABLE IF NOT EXISTS ai_usage (
+    project_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    estimated INTEGER NOT NULL,
+    timestamp TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ai_usage_project ON ai_usage (project_id, timestamp);
+  CREATE INDEX IF NOT EXISTS ai_usage_user ON ai_usage (user_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS documents (
+    project_id TEXT NOT NULL,
+    file_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    PRIMARY KEY (project_id, file_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS document_revisions (
+    project_id TEXT NOT NULL,
+    file_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    diffs TEXT NOT NULL, -- JSON ChangeOp array
+    user_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    PRIMARY KEY (project_id, file_id, revision)
+  );
+
+  CREATE TABLE IF NOT EXISTS annotations (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    project_id TEXT NOT NULL,
+    file_id TEXT NOT NULL,
+    start_offset INTEGER NOT NULL,
+    end_offset INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    resolved_at TEXT,
+    resolved_by TEXT,
+    resolved_by_name TEXT,
+    replies TEXT NOT NULL -- JSON array of replies, oldest first
+  );
+  CREATE INDEX IF NOT EXISTS annotations_project ON annotations (project_id, seq);
+
+  CREATE TABLE IF NOT EXISTS project_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    timestamp TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS project_events_project ON project_events (project_id, seq);
+
+  CREATE TABLE IF NOT EXISTS token_revocations (
+    id TEXT PRIMARY KEY, -- 'token:' + token ID, or 'user:' + user ID for user-wide revocations
+    jti TEXT,
+    user_id TEXT,
+    revoked_at TEXT NOT NULL,
+    expires_at TEXT,
+    reason TEXT
+  );
+`;
+
+interface MemberRow {
+  project_id: string;
+  user_id: string;
+  user_name: string;
+  role: ProjectRole;
+  joined_at: string;
+  last_seen_at: string;
+}
+
+function toMember(row: MemberRow): StoredMember {
+  return {
+    projectId: row.project_id,
+    userId: row.user_id,
+    userName: row.user_name,
+    role: row.role,
+    joinedAt: row.joined_at,
+    lastSeenAt: row.last_seen_at
+  };
+}
+
+interface ChatRow {
+  id: string;
+  project_id: string;
+  user_id: string;
+  user_name: string;
+  message: string;
+  timestamp: string;
+  parent_id: string | null;
+  mentions: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+function toChatMessage(row: ChatRow): StoredChatMessage {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    userId: row.user_id,
+    userName: row.user_name,
+    message: row.message,
+    timestamp: row.timestamp,
+    parentId: row.parent_id ?? undefined,
+    mentions: JSON.parse(row.mentions),
+    editedAt: row.edited_at ?? undefined,
+    deletedAt: row.deleted_at ?? undefined
+  };
+}
+
+interface AiThreadRow {
+  id: string;
+  project_id: string;
+  title: string;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toAiThread(row: AiThreadRow): StoredAiThread {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    title: row.title,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+interface AiMessageRow {
+  id: string;
+  thread_id: string;
+  project_id: string;
+  role: 'user' | 'assistant';
+  user_id: string;
+  user_name: string;
+  content: string;
+  provider: string | null;
+  model: string | null;
+  timestamp: string;
+}
+
+function toAiMessage(row: AiMessageRow): StoredAiMessage {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    projectId: row.project_id,
+    role: row.role,
+    userId: row.user_id,
+    userName: row.user_name,
+    content: row.content,
+    provider: row.provider ?? undefined,
+    model: row.model ?? undefined,
+    timestamp: row.timestamp
+  };
+}
+
+interface DocumentRow {
+  project_id: string;
+  file_id: string;
+  content: string;
+  revision: number;
+}
+
+interface RevisionRow {
+  project_id: string;
+  file_id: string;
+  revision: number;
+  diffs: string;
+  user_id: string;
+  timestamp: string;
+}
+
+interface AnnotationRow {
+  id: string;
+  project_id: string;
+  file_id: string;
+  start_offset: number;
+  end_offset: number;
+  revision: number;
+  user_id: string;
+  user_name: string;
+  body: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolved_by_name: string | null;
+  replies: string;
+}
+
+function toAnnotation(row: AnnotationRow): StoredAnnotation {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    fileId: row.file_id,
+    start: row.start_offset,
+    end: row.end_offset,
+    revision: row.revision,
+    userId: row.user_id,
+    userName: row.user_name,
+    body: row.body,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedByName: row.resolved_by_name ?? undefined,
+    replies: JSON.parse(row.replies)
+  };
+}
+
+interface ProjectEventRow {
+  seq: number;
+  project_id: string;
+  type: string;
+  payload: string;
+  timestamp: string;
+}
+
+interface RevocationRow {
+  jti: string | null;
+  user_id: string | null;
+  revoked_at: string;
+  expires_at: string | null;
+  reason: string | null;
+}
+
+// Persists everything to a SQLite file so projects, chat, AI threads and
+// documents survive a restart
+export class SqliteStorage implements Storage {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async saveProject(projectId: string) {
+    this.db.prepare('INSERT OR IGNORE INTO projects (project_id, created_at) VALUES (?, ?)')
+      .run(projectId, new Date().toISOString());
+  }
+
+  async listProjects() {
+    const rows = this.db.prepare('SELECT project_id FROM projects ORDER BY created_at').all() as { project_id: string }[];
+    return rows.map((row) => row.project_id);
+  }
+
+  async saveMember(member: MemberUpdate, seen: boolean) {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO project_members (project_id, user_id, user_name, role, joined_at, last_seen_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (project_id, user_id) DO UPDATE SET
+        user_name = excluded.user_name,
+        role = excluded.role,
+        last_seen_at = CASE WHEN ? THEN excluded.last_seen_at ELSE last_seen_at END
+    `).run(member.projectId, member.userId, member.userName, member.role, now, now, seen ? 1 : 0);
+  }
+
+  async addFirstMember(member: MemberUpdate) {
+    const now = new Date().toISOString();
+    const { changes } = this.db.prepare(`
+      INSERT INTO project_members (project_id, user_id, user_name, role, joined_at, last_seen_at)
+      SELECT ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM project_members WHERE project_id = ?)
+    `).run(member.projectId, member.userId, member.userName, member.role, now, now, member.projectId);
+    return changes > 0;
+  }
+
+  async getMember(projectId: string, userId: string) {
+    const row = this.db.prepare('SELECT * FROM project_members WHERE project_id = ? AND user_id = ?')
+      .get(projectId, userId) as MemberRow | undefined;
+    return row && toMember(row);
+  }
+
+  async removeMember(projectId: string, userId: string) {
+    this.db.prepare('DELETE FROM project_members WHERE project_id = ? AND user_id = ?').run(projectId, userId);
+  }
+
+  async listMembers(projectId: string): Promise<StoredMember[]> {
+    const rows = this.db.prepare('SELECT * FROM project_members WHERE project_id = ? ORDER BY joined_at')
+      .all(projectId) as MemberRow[];
+    return rows.map(toMember);
+  }
+
+  async appendChatMessage(message: StoredChatMessage) {
+    this.db.prepare(`
+      INSERT INTO chat_messages (id, project_id, user_id, user_name, message, timestamp, parent_id, mentions, edited_at, deleted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      message.id,
+      message.projectId,
+      message.userId,
+      message.userName,
+      message.message,
+      message.timestamp,
+      message.parentId ?? null,
+      JSON.stringify(message.mentions),
+      message.editedAt ?? null,
+      message.deletedAt ?? null
+    );
+  }
+
+  async getChatMessage(projectId: string, messageId: string) {
+    const row = this.db.prepare('SELECT * FROM chat_messages WHERE project_id = ? AND id = ?')
+      .get(projectId, messageId) as ChatRow | undefined;
+    return row && toChatMessage(row);
+  }
+
+  async updateChatMessage(message: StoredChatMessage) {
+    this.db.prepare(`
+      UPDATE chat_messages SET message = ?, mentions = ?, edited_at = ?, deleted_at = ?
+      WHERE project_id = ? AND id = ?
+    `).run(
+      message.message,
+      JSON.stringify(message.mentions),
+      message.editedAt ?? null,
+      message.deletedAt ?? null,
+      message.projectId,
+      message.id
+    );
+  }
+
+  async listChatMessages(projectId: string, query: ChatQuery): Promise<StoredChatMessage[]> {
+    const conditions = ['project_id = ?'];
+    const params: (string | number)[] = [projectId];
+    if (query.before !== undefined) {
+      conditions.push('seq < COALESCE((SELECT seq FROM chat_messages WHERE id = ? AND project_id = ?), 0)');
+      params.push(query.before, projectId);
+    }
+    if (query.parentId !== undefined) {
+      conditions.push('parent_id = ?');
+      params.push(query.parentId);
+    }
+    const rows = this.db.prepare(`
+      SELECT * FROM chat_messages WHERE ${conditions.join(' AND ')} ORDER BY seq DESC LIMIT ?
+    `).all(...params, query.limit) as ChatRow[];
+    return rows.reverse().map(toChatMessage);
+  }
+
+  async saveAiThread(thread: StoredAiThread) {
+    this.db.prepare(`
+      INSERT INTO ai_threads (id, project_id, title, created_by, created_by_name, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at
+    `).run(thread.id, thread.projectId, thread.title, thread.createdBy, thread.createdByName, thread.createdAt, thread.updatedAt);
+  }
+
+  async getAiThread(projectId: string, threadId: string) {
+    const row = this.db.prepare('SELECT * FROM ai_threads WHERE project_id = ? AND id = ?')
+      .get(projectId, threadId) as AiThreadRow | undefined;
+    return row && toAiThread(row);
+  }
+
+  async listAiThreads(projectId: string): Promise<StoredAiThread[]> {
+    const rows = this.db.prepare('SELECT * FROM ai_threads WHERE project_id = ? ORDER BY updated_at DESC')
+      .all(projectId) as AiThreadRow[];
+    return rows.map(toAiThread);
+  }
+
+  async appendAiMessage(message: StoredAiMessage) {
+    this.db.prepare(`
+      INSERT INTO ai_messages (id, thread_id, project_id, role, user_id, user_name, content, provider, model, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      message.id,
+      message.threadId,
+      message.projectId,
+      message.role,
+      message.userId,
+      message.userName,
+      message.content,
+      message.provider ?? null,
+      message.model ?? null,
+      message.timestamp
+    );
+  }
+
+  async getAiMessage(projectId: string, messageId: string) {
+    const row = this.db.prepare('SELECT * FROM ai_messages WHERE project_id = ? AND id = ?')
+      .get(projectId, messageId) as AiMessageRow | undefined;
+    return row && toAiMessage(row);
+  }
+
+  async listAiMessages(projectId: string, threadId: string): Promise<StoredAiMessage[]> {
+    const rows = this.db.prepare('SELECT * FROM ai_messages WHERE project_id = ? AND thread_id = ? ORDER BY seq')
+      .all(projectId, threadId) as AiMessageRow[];
+    return rows.map(toAiMessage);
+  }
+
+  async recordAiUsage(usage: StoredAiUsage) {
+    this.db.prepare(`
+      INSERT INTO ai_usage (project_id, user_id, provider, model, input_tokens, output_tokens, estimated, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      usage.projectId,
+      usage.userId,
+      usage.provider,
+      usage.model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.estimated ? 1 : 0,
+      usage.timestamp
+    );
+  }
+
+  async summarizeAiUsage(query: AiUsageQuery): Promise<AiUsageTotal[]> {
+    const conditions = ['timestamp >= ?'];
+    const params: string[] = [query.since];
+    if (query.projectId !== undefined) {
+      conditions.push('project_id = ?');
+      params.push(query.projectId);
+    }
+    if (query.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(query.userId);
+    }
+    return this.db.prepare(`
+      SELECT provider, model, COUNT(*) AS requests,
+        SUM(input_tokens) AS inputTokens, SUM(output_tokens) AS outputTokens
+      FROM ai_usage WHERE ${conditions.join(' AND ')}
+      GROUP BY provider, model
+    `).all(...params) as AiUsageTotal[];
+  }
+
+  async saveDocument(document: StoredDocument, change?: StoredRevision) {
+    const save = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO documents (project_id, file_id, content, revision) VALUES (?, ?, ?, ?)
+        ON CONFLICT (project_id, file_id) DO UPDATE SET content = excluded.content, revision = excluded.revision
+      `).run(document.projectId, document.fileId, document.content, document.revision);
+      if (change) {
+        this.db.prepare(`
+          INSERT INTO document_revisions (project_id, file_id, revision, diffs, user_id, timestamp)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(change.projectId, change.fileId, change.revision, JSON.stringify(change.ops), change.userId, change.timestamp);
+      }
+    });
+    save();
+  }
+
+  async listDocuments(projectId: string): Promise<StoredDocument[]> {
+    const rows = this.db.prepare('SELECT * FROM documents WHERE project_id = ?').all(projectId) as DocumentRow[];
+    return rows.map((row) => ({
+      projectId: row.project_id,
+      fileId: row.file_id,
+      content: row.content,
+      revision: row.revision
+    }));
+  }
+
+  async listRevisions(projectId: string, fileId: string, sinceRevision: number, limit = -1): Promise<StoredRevision[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM document_revisions
+      WHERE project_id = ? AND file_id = ? AND revision > ?
+      ORDER BY revision LIMIT ?
+    `).all(projectId, fileId, sinceRevision, limit) as RevisionRow[];
+    return rows.map((row) => ({
+      projectId: row.project_id,
+      fileId: row.file_id,
+      revision: row.revision,
+      ops: JSON.parse(row.diffs),
+      userId: row.user_id,
+      timestamp: row.timestamp
+    }));
+  }
+
+  async renameDocument(projectId: string, fileId: string, newFileId: string) {
+    const rename = this.db.transaction(() => {
+      this.db.prepare('UPDATE documents SET file_id = ? WHERE project_id = ? AND file_id = ?').run(newFileId, projectId, fileId);
+      this.db.prepare('UPDATE document_revisions SET file_id = ? WHERE project_id = ? AND file_id = ?').run(newFileId, projectId, fileId);
+      this.db.prepare('UPDATE annotations SET file_id = ? WHERE project_id = ? AND file_id = ?').run(newFileId, projectId, fileId);
+    });
+    rename();
+  }
+
+  async deleteDocument(projectId: string, fileId: string) {
+    const remove = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM documents WHERE project_id = ? AND file_id = ?').run(projectId, fileId);
+      this.db.prepare('DELETE FROM document_revisions WHERE project_id = ? AND file_id = ?').run(projectId, fileId);
+      this.db.prepare('DELETE FROM annotations WHERE project_id = ? AND file_id = ?').run(projectId, fileId);
+    });
+    remove();
+  }
+
+  async saveAnnotation(annotation: StoredAnnotation) {
+    this.db.prepare(`
+      INSERT INTO annotations (
+        id, project_id, file_id, start_offset, end_offset, revision, user_id, user_name, body,
+        created_at, resolved_at, resolved_by, resolved_by_name, replies
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        file_id = excluded.file_id, start_offset = excluded.start_offset, end_offset = excluded.end_offset,
+        revision = excluded.revision, body = excluded.body, resolved_at = excluded.resolved_at,
+        resolved_by = excluded.resolved_by, resolved_by_name = excluded.resolved_by_name, replies = excluded.replies
+    `).run(
+      annotation.id,
+      annotation.projectId,
+      annotation.fileId,
+      annotation.start,
+      annotation.end,
+      annotation.revision,
+      annotation.userId,
+      annotation.userName,
+      annotation.body,
+      annotation.createdAt,
+      annotation.resolvedAt ?? null,
+      annotation.resolvedBy ?? null,
+      annotation.resolvedByName ?? null,
+      JSON.stringify(annotation.replies)
+    );
+  }
+
+  async listAnnotations(projectId: string): Promise<StoredAnnotation[]> {
+    const rows = this.db.prepare('SELECT * FROM annotations WHERE project_id = ? ORDER BY seq')
+      .all(projectId) as AnnotationRow[];
+    return rows.map(toAnnotation);
+  }
+
+  async appendProjectEvent(event: Omit<StoredProjectEvent, 'seq'>) {
+    this.db.prepare('INSERT INTO project_events (project_id, type, payload, timestamp) VALUES (?, ?, ?, ?)')
+      .run(event.projectId, event.type, JSON.stringify(event.payload ?? null), event.timestamp);
+  }
+
+  async listProjectEvents(projectId: string, query: ProjectEventQuery): Promise<StoredProjectEvent[]> {
+    const conditions = ['project_id = ?'];
+    const params: (string | number)[] = [projectId];
+    if (query.afterSeq !== undefined) {
+      conditions.push('seq > ?');
+      params.push(query.afterSeq);
+    }
+    if (query.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.until);
+    }
+    if (query.types !== undefined) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...query.types);
+    }
+    const rows = this.db.prepare(`
+      SELECT * FROM project_events WHERE ${conditions.join(' AND ')} ORDER BY seq LIMIT ?
+    `).all(...params, query.limit) as ProjectEventRow[];
+    return rows.map((row) => ({
+      seq: row.seq,
+      projectId: row.project_id,
+      type: row.type,
+      payload: JSON.parse(row.payload),
+      timestamp: row.timestamp
+    }));
+  }
+
+  async saveRevocation(revocation: StoredRevocation) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO token_revocations (id, jti, user_id, revoked_at, expires_at, reason)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      revocation.jti ? `token:${revocation.jti}` : `user:${revocation.userId}`,
+      revocation.jti ?? null,
+      revocation.userId ?? null,
+      revocation.revokedAt,
+      revocation.expiresAt ?? null,
+      revocation.reason ?? null
+    );
+  }
+
+  async listRevocations(): Promise<StoredRevocation[]> {
+    const rows = this.db.prepare('SELECT * FROM token_revocations ORDER BY revoked_at').all() as RevocationRow[];
+    return rows.map((row) => ({
+      jti: row.jti ?? undefined,
+      userId: row.user_id ?? undefined,
+      revokedAt: row.revoked_at,
+      expiresAt: row.expires_at ?? undefined,
+      reason: row.reason ?? undefined
+    }));
+  }
+
+  async deleteExpiredRevocations(before: string) {
+    this.db.prepare('DELETE FROM token_revocations WHERE expires_at < ?').run(before);
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,211 @@
+import type { ChangeOp } from '../documents.js';
+import type { ProjectRole } from '../types.js';
+
+// --- Stored Records ---
+
+export interface StoredMember {
+  projectId: string;
+  userId: string;
+  userName: string;
+  role: ProjectRole;
+  joinedAt: string; // When the user was added to the project
+  lastSeenAt: string; // Most recent join, or when they were added if they never joined
+}
+
+export type MemberUpdate = Pick<StoredMember, 'projectId' | 'userId' | 'userName' | 'role'>;
+
+export interface ChatMention {
+  userId: string;
+  userName: string;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  projectId: string;
+  userId: string;
+  userName: string;
+  message: string; // Empty once deleted
+  timestamp: string;
+  parentId?: string; // Message this one replies to
+  mentions: ChatMention[];
+  editedAt?: string;
+  deletedAt?: string;
+}
+
+// A shared AI conversation, visible to the whole project
+export interface StoredAiThread {
+  id: string;
+  projectId: string;
+  title: string; // Start of the first prompt
+  createdBy: string; // User ID
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string; // When the last message was added
+}
+
+export interface StoredAiMessage {
+  id: string;
+  threadId: string;
+  projectId: string;
+  role: 'user' | 'assistant';
+  userId: string; // Who asked; for replies, who asked the question being answered
+  userName: string;
+  content: string;
+  provider?: string; // Replies only
+  model?: string;
+  timestamp: string;
+}
+
+// Tokens spent on one AI request
+export interface StoredAiUsage {
+  projectId: string;
+  userId: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // True if the provider didn't report usage and it was estimated from text length
+  timestamp: string;
+}
+
+export interface AiUsageQuery {
+  projectId?: string;
+  userId?: string;
+  since: string; // ISO timestamp
+}
+
+export interface AiUsageTotal {
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface StoredDocument {
+  projectId: string;
+  fileId: string;
+  content: string;
+  revision: number;
+}
+
+export interface StoredRevision {
+  projectId: string;
+  fileId: string;
+  revision: number;
+  ops: ChangeOp[]; // From the previous revision's text to this revision's text
+  userId: string;
+  timestamp: string;
+}
+
+// A review comment anchored to characters [start, end) of a file
+export interface StoredAnnotation {
+  id: string;
+  projectId: string;
+  fileId: string;
+  start: number;
+  end: number;
+  revision: number; // File revision the anchor was last moved at
+  userId: string;
+  userName: string;
+  body: string;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  resolvedByName?: string;
+  replies: StoredAnnotationReply[]; // Oldest first
+}
+
+export interface StoredAnnotationReply {
+  id: string;
+  userId: string;
+  userName: string;
+  body: string;
+  timestamp: string;
+}
+
+// A project event as it was broadcast, for session recordings
+export interface StoredProjectEvent {
+  seq: number; // Assigned by storage; increases with every recorded event
+  projectId: string;
+  type: string;
+  payload: unknown;
+  timestamp: string;
+}
+
+export interface ProjectEventQuery {
+  afterSeq?: number; // Only events after this one
+  since?: string; // ISO timestamps, inclusive
+  until?: string;
+  types?: string[]; // Only events of these types
+  limit: number;
+}
+
+// A revoked token, or every token issued to a user before revokedAt
+export interface StoredRevocation {
+  jti?: string; // The revoked token's ID; when unset, the revocation covers all of the user's tokens
+  userId?: string; // Whose tokens
+  revokedAt: string;
+  expiresAt?: string; // When the token expires anyway and the revocation can be forgotten
+  reason?: string;
+}
+
+export interface ChatQuery {
+  before?: string; // Only messages older than this message ID
+  parentId?: string; // Only replies to this message
+  limit: number;
+}
+
+// --- Storage ---
+// Everything the server needs to survive a restart. Methods return promises so
+// backends with asynchronous drivers can implement the same interface.
+export interface Storage {
+  // Projects and membership
+  saveProject(projectId: string): Promise<void>;
+  listProjects(): Promise<string[]>;
+  saveMember(member: MemberUpdate, seen: boolean): Promise<void>; // `seen` updates lastSeenAt
+  addFirstMember(member: MemberUpdate): Promise<boolean>; // Only if the project has no members yet; false if it has
+  getMember(projectId: string, userId: string): Promise<StoredMember | undefined>;
+  removeMember(projectId: string, userId: string): Promise<void>;
+  listMembers(projectId: string): Promise<StoredMember[]>;
+
+  // Chat, newest last
+  appendChatMessage(message: StoredChatMessage): Promise<void>;
+  getChatMessage(projectId: string, messageId: string): Promise<StoredChatMessage | undefined>;
+  updateChatMessage(message: StoredChatMessage): Promise<void>; // Saves message text, mentions, editedAt and deletedAt
+  listChatMessages(projectId: string, query: ChatQuery): Promise<StoredChatMessage[]>;
+
+  // Shared AI threads, most recently active first; messages oldest first
+  saveAiThread(thread: StoredAiThread): Promise<void>; // Creates the thread or updates its updatedAt
+  getAiThread(projectId: string, threadId: string): Promise<StoredAiThread | undefined>;
+  listAiThreads(projectId: string): Promise<StoredAiThread[]>;
+  appendAiMessage(message: StoredAiMessage): Promise<void>;
+  getAiMessage(projectId: string, messageId: string): Promise<StoredAiMessage | undefined>;
+  listAiMessages(projectId: string, threadId: string): Promise<StoredAiMessage[]>;
+
+  // AI token accounting
+  recordAiUsage(usage: StoredAiUsage): Promise<void>;
+  summarizeAiUsage(query: AiUsageQuery): Promise<AiUsageTotal[]>; // One total per provider and model
+
+  // Documents and their revision history
+  saveDocument(document: StoredDocument, change?: StoredRevision): Promise<void>;
+  listDocuments(projectId: string): Promise<StoredDocument[]>;
+  listRevisions(projectId: string, fileId: string, sinceRevision: number, limit?: number): Promise<StoredRevision[]>;
+  renameDocument(projectId: string, fileId: string, newFileId: string): Promise<void>; // Moves its revisions and annotations too
+  deleteDocument(projectId: string, fileId: string): Promise<void>; // Along with its revisions and annotations
+
+  // Review annotations on documents, oldest first
+  saveAnnotation(annotation: StoredAnnotation): Promise<void>; // Creates or replaces it, replies included
+  listAnnotations(projectId: string): Promise<StoredAnnotation[]>;
+
+  // Session recordings: every project's event log, oldest first
+  appendProjectEvent(event: Omit<StoredProjectEvent, 'seq'>): Promise<void>;
+  listProjectEvents(projectId: string, query: ProjectEventQuery): Promise<StoredProjectEvent[]>;
+
+  // Revoked tokens. A user-wide revocation replaces that user's previous one.
+  saveRevocation(revocation: StoredRevocation): Promise<void>;
+  listRevocations(): Promise<StoredRevocation[]>;
+  deleteExpiredRevocations(before: string): Promise<void>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,171 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { AiProviderConfig, AiProviderRegistry, OpenAiCompatibleProvider } from './ai/index.js';
+import { TokenClaims } from './auth.js';
+import { PubSub } from './cluster/index.js';
+import { Logger } from './logger.js';
+import { CollabClient, ConnectOptions } from './sdk/index.js';
+import { CollabServer, createServer, loadConfig, ServerConfig } from './server.js';
+import { Storage } from './storage/index.js';
+
+// --- Test Harness ---
+// An in-process server on free ports, with an AI endpoint that answers every
+// request with canned text and a clock the test moves by hand, for end-to-end
+// tests and for trying bots against a real server.
+
+// A clock that only moves when told to
+export class ManualClock {
+  constructor(private time = Date.now()) {}
+
+  now = () => this.time;
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
+
+export interface MockAiRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  max_tokens?: number;
+}
+
+export interface MockAi {
+  baseUrl: string; // Use as an OpenAI-compatible provider's baseUrl
+  requests: MockAiRequest[]; // Bodies of the requests received, oldest first
+  stall: boolean; // Send the first piece of each reply and then nothing more
+  stop(): Promise<void>;
+}
+
+// Streamed back in pieces of this many characters
+const MOCK_CHUNK_LENGTH = 8;
+
+// Serve OpenAI's streaming chat completions API, answering every request with
+// `reply` (or what it returns for the request) and reporting token usage
+export function startMockAi(reply: string | ((request: MockAiRequest) => string) = 'Mock reply'): Promise<MockAi> {
+  const requests: MockAiRequest[] = [];
+  let mock: MockAi;
+  const httpServer = http.createServer((req, res) => {
+    if (req.method !== 'POST' || req.url !== '/chat/completions') {
+      res.writeHead(404).end();
+      return;
+    }
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body) as MockAiRequest;
+      requests.push(request);
+      const text = typeof reply === 'function' ? reply(request) : reply;
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+      for (let index = 0; index < text.length; index += MOCK_CHUNK_LENGTH) {
+        send({ choices: [{ index: 0, delta: { content: text.slice(index, index + MOCK_CHUNK_LENGTH) } }] });
+        if (mock.stall) return; // Left open until the mock stops
+      }
+      const promptLength = request.messages.reduce((total, message) => total + message.content.length, 0);
+      send({ choices: [], usage: { prompt_tokens: Math.ceil(promptLength / 4), completion_tokens: Math.ceil(text.length / 4) } });
+      res.end('data: [DONE]\n\n');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(0, '127.0.0.1', () => {
+      const { port } = httpServer.address() as AddressInfo;
+      mock = {
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        stall: false,
+        stop: () => new Promise((done) => {
+          httpServer.close(() => done());
+          httpServer.closeAllConnections();
+        })
+      };
+      resolve(mock);
+    });
+  });
+}
+
+export interface TestServerOptions {
+  config?: Partial<ServerConfig>; // Overrides for the test defaults
+  clock?: ManualClock; // Default: a manual clock starting now
+  storage?: Storage; // Default: empty in-memory storage
+  pubsub?: PubSub; // Default: a bus of its own; share one between servers to run a cluster
+  aiReply?: string | ((request: MockAiRequest) => string); // What the mock AI provider answers
+  aiProvider?: Partial<AiProviderConfig>; // Overrides for the mock provider, e.g. its timeouts
+}
+
+export interface TestServer {
+  server: CollabServer;
+  config: ServerConfig;
+  clock: ManualClock;
+  ai: MockAi; // Registered as the default provider, named 'mock'
+  logs: string[]; // Log lines written by the server
+  url: string; // WebSocket URL
+  webUrl: string; // Base URL of the HTTP APIs
+  // An access token signed with the server's secret, issued at the clock's time
+  token(claims: TokenClaims, expiresInSeconds?: number): string;
+  // Connect and authenticate as a user
+  connect(userId: string, claims?: Partial<TokenClaims>, options?: Partial<ConnectOptions>): Promise<CollabClient>;
+  stop(): Promise<void>; // Closes the clients it connected too
+}
+
+// Start a server on free ports with in-memory storage
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const config: ServerConfig = {
+    ...loadConfig({ JWT_SECRET: 'test-secret', PORT: '0', WEB_PORT: '0', LOG_LEVEL: 'debug' }),
+    ...options.config
+  };
+  const clock = options.clock ?? new ManualClock();
+  const ai = await startMockAi(options.aiReply);
+  const providers = new AiProviderRegistry();
+  providers.register(new OpenAiCompatibleProvider('mock', { baseUrl: ai.baseUrl, model: 'mock-model', ...options.aiProvider }));
+  const logs: string[] = [];
+
+  const server = createServer(config, {
+    ai: providers,
+    storage: options.storage,
+    pubsub: options.pubsub,
+    log: new Logger(config.logLevel, {}, (_level, line) => logs.push(line)),
+    now: clock.now
+  });
+  let ports;
+  try {
+    ports = await server.start();
+  } catch (error) {
+    await ai.stop();
+    throw error;
+  }
+  const { port, webPort } = ports;
+  const url = `ws://127.0.0.1:${port}`;
+  const clients: CollabClient[] = [];
+
+  const token = (claims: TokenClaims, expiresInSeconds = 3600) =>
+    jwt.sign({ ...claims, iat: Math.floor(clock.now() / 1000) }, config.jwtSecret, { expiresIn: expiresInSeconds });
+
+  return {
+    server,
+    config,
+    clock,
+    ai,
+    logs,
+    url,
+    webUrl: `http://127.0.0.1:${webPort}`,
+    token,
+    async connect(userId, claims = {}, connectOptions = {}) {
+      const client = await CollabClient.connect(url, {
+        token: token({ userId, userName: userId, ...claims }),
+        ...connectOptions
+      });
+      clients.push(client);
+      return client;
+    },
+    async stop() {
+      await Promise.all(clients.map((client) => client.close()));
+      await server.stop();
+      await ai.stop();
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import express, { Request } from 'express';
+import { isProjectRole } from './access.js';
+import { asyncRoute } from './admin.js';
+import { InvalidTokenError, JwtPayload, TokenIssuer } from './auth.js';
+import { RevocationList } from './revocations.js';
+import { StoredRevocation } from './storage/index.js';
+import { JsonSchema, validateSchema } from './tools/schema.js';
+import { ServerContext } from './types.js';
+
+// --- Token API ---
+// REST endpoints under /api/auth for issuing, refreshing and revoking tokens.
+// Issuing needs the issuer key (for a trusted backend) or an admin token.
+
+export interface TokenApiOptions {
+  issuer: TokenIssuer;
+  issuerKey?: string; // TOKEN_ISSUER_KEY
+  verifyToken(token: string): JwtPayload; // Throws if the access token is invalid or revoked
+  revocations: RevocationList;
+  revoke(revocation: StoredRevocation): Promise<number>; // Returns how many connections were closed here
+}
+
+const claimsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    userName: { type: 'string', minLength: 1 },
+    projectRoles: { type: 'object', description: 'Role per project ID; "*" applies to projects without an entry' },
+    admin: { type: 'boolean' }
+  },
+  required: ['userId', 'userName']
+};
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+}
+
+// Compare secrets without leaking how much of them matched
+function secretsMatch(presented: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(presented), digest(expected));
+}
+
+function expiresAt(payload: JwtPayload): string | undefined {
+  return payload.exp === undefined ? undefined : new Date(payload.exp * 1000).toISOString();
+}
+
+export function createTokenRouter(server: ServerContext, options: TokenApiOptions): express.Router {
+  const router = express.Router();
+
+  // Issue tokens for any user, e.g. from a backend that has already signed them in
+  router.post('/token', (req, res) => {
+    const presented = bearerToken(req);
+    if (!presented) {
+      server.metrics.authFailures.inc({ reason: 'issue' });
+      res.status(401).json({ error: 'Issuer key or admin token required' });
+      return;
+    }
+    let issuedBy = 'issuer key';
+    if (!options.issuerKey || !secretsMatch(presented, options.issuerKey)) {
+      let payload: JwtPayload | undefined;
+      try {
+        payload = options.verifyToken(presented);
+      } catch {
+        // Reported below
+      }
+      if (!payload?.admin) {
+        server.metrics.authFailures.inc({ reason: 'issue' });
+        res.status(403).json({ error: 'Invalid issuer key or admin token' });
+        return;
+      }
+      issuedBy = payload.userId;
+    }
+
+    const errors = validateSchema(claimsSchema, req.body, 'body');
+    if (errors.length === 0 && req.body.projectRoles !== undefined && !Object.values(req.body.projectRoles).every(isProjectRole)) {
+      errors.push('body.projectRoles must map project IDs to owner, editor or viewer');
+    }
+    if (errors.length > 0) {
+      res.status(400).json({ error: `Invalid claims: ${errors.join('; ')}` });
+      return;
+    }
+
+    const { userId, userName, projectRoles, admin } = req.body;
+    server.log.info('Issued tokens', { userId, admin: admin === true, issuedBy });
+    res.json(options.issuer.issue({ userId, userName, projectRoles, admin }));
+  });
+
+  // Trade a refresh token for a new pair. The old refresh token stops working.
+  router.post('/refresh', asyncRoute(async (req, res) => {
+    const refreshToken = req.body?.refreshToken;
+    let payload: JwtPayload;
+    try {
+      if (typeof refreshToken !== 'string') {
+        throw new InvalidTokenError('refreshToken is required');
+      }
+      payload = options.issuer.verifyRefreshToken(refreshToken);
+      if (options.revocations.isRevoked(payload)) {
+        throw new InvalidTokenError('Refresh token has been revoked or already used');
+      }
+    } catch (error) {
+      server.metrics.authFailures.inc({ reason: 'refresh' });
+      res.status(401).json({ error: `Invalid refresh token: ${(error as Error).message}` });
+      return;
+    }
+
+    await options.revoke({
+      jti: payload.jti,
+      userId: payload.userId,
+      revokedAt: new Date(server.now()).toISOString(),
+      expiresAt: expiresAt(payload),
+      reason: 'refreshed'
+    });
+    res.json(options.issuer.issue(payload));
+  }));
+
+  // Revoke the token in the body, e.g. when signing out. Connections using it are closed.
+  router.post('/revoke', asyncRoute(async (req, res) => {
+    const token = req.body?.token;
+    let payload: JwtPayload;
+    try {
+      if (typeof token !== 'string') {
+        throw new InvalidTokenError('token is required');
+      }
+      try {
+        payload = options.issuer.verifyRefreshToken(token);
+      } catch {
+        payload = options.verifyToken(token);
+      }
+    } catch (error) {
+      res.status(400).json({ error: `Invalid token: ${(error as Error).message}` });
+      return;
+    }
+    if (!payload.jti) {
+      res.status(400).json({ error: "Token has no ID (jti), so it can't be revoked on its own; an administrator can revoke all of the user's tokens" });
+      return;
+    }
+
+    const disconnected = await options.revoke({
+      jti: payload.jti,
+      userId: payload.userId,
+      revokedAt: new Date(server.now()).toISOString(),
+      expiresAt: expiresAt(payload),
+      reason: 'revoked by holder'
+    });
+    res.json({ success: true, jti: payload.jti, disconnected });
+  }));
+
+  return router;
+}
@@ -0,0 +1,451 @@
+import { v4 as uuidv4 } from 'uuid';
+import { buildAiContext, estimateTokens } from '../ai/context.js';
+import { describeProviderError } from '../ai/stream.js';
+import { extractSuggestions } from '../ai/suggestions.js';
+import { AiMessage } from '../ai/types.js';
+import { checkAiQuota, dailyAiUsage } from '../ai/usage.js';
+import { EditConflictError } from '../documents.js';
+import { rateLimitedDetails } from '../limits.js';
+import { StoredAiMessage, StoredAiThread } from '../storage/index.js';
+import { ServerContext } from '../types.js';
+import { fileIdSchema } from './files.js';
+import { ToolCall, ToolDefinition } from './registry.js';
+
+const THREAD_TITLE_LENGTH = 80;
+
+interface AiRequestArgs {
+  provider?: string;
+  prompt?: string;
+  codeSnippet?: string;
+  fileId?: string;
+  fileIds?: string[];
+  shared?: boolean;
+  threadId?: string;
+}
+
+// AI thread message as sent to clients. Replies list their code blocks as
+// suggestions that can be applied with ai:apply_suggestion.
+function toWire(message: StoredAiMessage) {
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    role: message.role,
+    userId: message.userId,
+    userName: message.userName,
+    content: message.content,
+    provider: message.provider,
+    model: message.model,
+    timestamp: message.timestamp,
+    suggestions: message.role === 'assistant' ? extractSuggestions(message.content) : undefined
+  };
+}
+
+function threadSummary(thread: StoredAiThread) {
+  return {
+    id: thread.id,
+    title: thread.title,
+    createdBy: thread.createdBy,
+    createdByName: thread.createdByName,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt
+  };
+}
+
+function threadTitle(text: string): string {
+  const line = text.trim().split('\n')[0];
+  return line.length > THREAD_TITLE_LENGTH ? `${line.slice(0, THREAD_TITLE_LENGTH - 3)}...` : line;
+}
+
+// Record the latency and outcome of a call to a provider
+async function timeCompletion<T>(server: ServerContext, provider: string, complete: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    const completion = await complete();
+    server.metrics.aiRequests.inc({ provider, outcome: 'success' });
+    return completion;
+  } catch (error) {
+    server.metrics.aiRequests.inc({ provider, outcome: 'error' });
+    throw error;
+  } finally {
+    server.metrics.aiRequestDuration.observeSince({ provider }, start);
+  }
+}
+
+// Ask a provider for a completion, streaming the text back as `ai_chunk`
+// messages with the call's requestId before the final tool response. In shared
+// mode the question, the streamed answer and the reply go to the whole project
+// and are saved as a thread that anyone can follow up in.
+async function handleAiRequest(server: ServerContext, args: AiRequestArgs, { client, requestId, log }: ToolCall) {
+  const projectId = client.projectId!;
+  const provider = server.ai.get(args.provider);
+  if (!provider) {
+    const error = args.provider
+      ? `AI provider '${args.provider}' is not configured`
+      : 'No AI provider is configured';
+    server.sendError(client, 'bad_request', error, requestId, { providers: server.ai.list().map((summary) => summary.name) });
+    return;
+  }
+
+  let thread: StoredAiThread | undefined;
+  let history: StoredAiMessage[] = [];
+  if (args.threadId) {
+    thread = await server.storage.getAiThread(projectId, args.threadId);
+    if (!thread) {
+      server.sendError(client, 'not_found', `AI thread ${args.threadId} not found`, requestId);
+      return;
+    }
+    history = await server.storage.listAiMessages(projectId, thread.id);
+  }
+
+  const overQuota = await checkAiQuota(server.storage, client, server.config.aiQuotas, server.now());
+  if (overQuota) {
+    log.warn('Over the daily AI quota', { projectId, scope: overQuota.scope });
+    server.metrics.rateLimited.inc({ limit: overQuota.limit, scope: overQuota.scope });
+    server.sendError(client, 'quota_exceeded', `Daily AI token quota for this ${overQuota.scope} is used up`, requestId, rateLimitedDetails(overQuota));
+    return;
+  }
+
+  log.info('AI request', { projectId, provider: provider.name, model: provider.model, threadId: thread?.id });
+  const replyId = uuidv4();
+  try {
+    // Earlier turns of the thread count against the context budget
+    const conversation: AiMessage[] = history.map((message) => ({ role: message.role, content: message.content }));
+    const historyTokens = conversation.reduce((total, message) => total + estimateTokens(message.content), 0);
+    const fileIds = [...new Set([...(args.fileId ? [args.fileId] : []), ...(args.fileIds ?? [])])];
+    const context = await buildAiContext(server, client, {
+      prompt: args.prompt,
+      codeSnippet: args.codeSnippet,
+      fileIds
+    }, Math.max(0, server.config.aiContextTokens - historyTokens));
+    log.debug('AI context assembled', { sources: context.sources.length, omitted: context.omitted.length, usedTokens: context.usedTokens });
+
+    if (!thread && args.shared) {
+      const now = new Date(server.now()).toISOString();
+      thread = {
+        id: uuidv4(),
+        projectId,
+        title: threadTitle(context.question),
+        createdBy: client.userId,
+        createdByName: client.userName,
+        createdAt: now,
+        updatedAt: now
+      };
+      await server.storage.saveAiThread(thread);
+    }
+
+    if (thread) {
+      // Threads keep the question without its project context, which goes stale
+      const question: StoredAiMessage = {
+        id: uuidv4(),
+        threadId: thread.id,
+        projectId,
+        role: 'user',
+        userId: client.userId,
+        userName: client.userName,
+        content: context.question,
+        timestamp: new Date(server.now()).toISOString()
+      };
+      await server.storage.appendAiMessage(question);
+      server.broadcast(projectId, {
+        type: 'ai_thread_message',
+        payload: { thread: { id: thread.id, title: thread.title }, message: toWire(question), replyId }
+      });
+    }
+
+    let index = 0;
+    const messages: AiMessage[] = [...conversation, { role: 'user', content: context.prompt }];
+    const completion = await timeCompletion(server, provider.name, () => provider.complete({ system: context.system, messages }, (text) => {
+      const chunk = {
+        type: 'ai_chunk' as const,
+        payload: { provider: provider.name, index: index++, text, threadId: thread?.id, messageId: thread ? replyId : undefined },
+        requestId
+      };
+      if (thread) {
+        server.broadcast(projectId, chunk);
+      } else {
+        server.sendMessage(client, chunk);
+      }
+    }));
+
+    // Count the tokens against the quotas, estimating them if the provider didn't say
+    const usage = completion.usage ?? {
+      inputTokens: estimateTokens(context.system) + messages.reduce((total, message) => total + estimateTokens(message.content), 0),
+      outputTokens: estimateTokens(completion.text)
+    };
+    await server.storage.recordAiUsage({
+      projectId,
+      userId: client.userId,
+      provider: provider.name,
+      model: completion.model,
+      ...usage,
+      estimated: !completion.usage,
+      timestamp: new Date(server.now()).toISOString() // Counted by the day of the server's clock
+    });
+
+    let reply: StoredAiMessage | undefined;
+    if (thread) {
+      reply = {
+        id: replyId,
+        threadId: thread.id,
+        projectId,
+        role: 'assistant',
+        userId: client.userId,
+        userName: client.userName,
+        content: completion.text,
+        provider: provider.name,
+        model: completion.model,
+        timestamp: new Date(server.now()).toISOString()
+      };
+      await server.storage.appendAiMessage(reply);
+      await server.storage.saveAiThread({ ...thread, updatedAt: reply.timestamp });
+      server.broadcast(projectId, {
+        type: 'ai_thread_message',
+        payload: { thread: { id: thread.id, title: thread.title }, message: toWire(reply) }
+      });
+    }
+
+    server.sendResponse(client, {
+      success: true,
+      provider: provider.name,
+      model: completion.model,
+      result: completion.text,
+      suggestions: extractSuggestions(completion.text),
+      usage: { ...usage, estimated: !completion.usage },
+      threadId: thread?.id,
+      messageId: reply?.id,
+      context: {
+        budget: context.budget,
+        usedTokens: context.usedTokens,
+        sources: context.sources,
+        omitted: context.omitted
+      }
+    }, requestId);
+    server.recorder.recordAiResponse(projectId, {
+      userId: client.userId,
+      userName: client.userName,
+      provider: provider.name,
+      model: completion.model,
+      ...usage,
+      estimated: !completion.usage,
+      chunks: index,
+      fileIds,
+      threadId: thread?.id,
+      messageId: reply?.id
+    });
+    log.info('AI response sent', { provider: provider.name, chunks: index, shared: thread !== undefined, ...usage });
+  } catch (error) {
+    const message = await describeProviderError(error);
+    log.error('AI request failed', { provider: provider.name, error: message });
+    if (thread) {
+      // Let everyone following the thread stop waiting for the reply
+      server.broadcast(projectId, {
+        type: 'ai_thread_reply_failed',
+        payload: { threadId: thread.id, messageId: replyId, error: message }
+      }, client);
+    }
+    server.sendError(client, 'upstream_error', `AI request failed: ${message}`, requestId, { provider: provider.name, threadId: thread?.id });
+  }
+}
+
+export function createAiTools(server: ServerContext): ToolDefinition[] {
+  const requestProperties = {
+    prompt: { type: 'string', description: 'Question or instruction for the assistant' },
+    codeSnippet: { type: 'string', description: 'Code to include with the request' },
+    fileId: { ...fileIdSchema, description: 'File the request is about; its server copy is sent along' },
+    fileIds: { type: 'array', items: fileIdSchema, description: 'More files to send along, most important first' },
+    shared: { type: 'boolean', description: 'Share the question and answer with the whole project as a new AI thread' },
+    threadId: { type: 'string', minLength: 1, description: 'Follow up in an existing shared AI thread' }
+  };
+  return [
+    {
+      name: 'ai:request',
+      description: 'Ask an AI provider for help within the current project, with the referenced files, code around cursors and recent chat as context. The answer streams back as ai_chunk messages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string', minLength: 1, description: 'Provider to use (see ai:providers); defaults to the server default' },
+          ...requestProperties
+        }
+      },
+      requiresProject: true,
+      rateLimit: 'ai',
+      handler: (args: AiRequestArgs, call) => handleAiRequest(server, args, call)
+    },
+    {
+      name: 'ai:request_openai',
+      description: 'Ask OpenAI for help within the current project.',
+      inputSchema: { type: 'object', properties: requestProperties },
+      requiresProject: true,
+      rateLimit: 'ai',
+      handler: (args: AiRequestArgs, call) => handleAiRequest(server, { ...args, provider: 'openai' }, call)
+    },
+    {
+      name: 'ai:request_anthropic',
+      description: 'Ask Anthropic for help within the current project.',
+      inputSchema: { type: 'object', properties: requestProperties },
+      requiresProject: true,
+      rateLimit: 'ai',
+      handler: (args: AiRequestArgs, call) => handleAiRequest(server, { ...args, provider: 'anthropic' }, call)
+    },
+    {
+      name: 'ai:providers',
+      description: 'List the AI providers configured on this server and their models.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: false,
+      handler: (_args, { client, requestId }) => {
+        server.sendResponse(client, { success: true, providers: server.ai.list() }, requestId);
+      }
+    },
+    {
+      name: 'ai:usage',
+      description: "Today's AI token usage for you and the current project, and the daily quotas.",
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: async (_args, { client, requestId }) => {
+        const now = server.now();
+        const [user, project] = await Promise.all([
+          dailyAiUsage(server.storage, { userId: client.userId }, now),
+          dailyAiUsage(server.storage, { projectId: client.projectId! }, now)
+        ]);
+        server.sendResponse(client, {
+          success: true,
+          user: { ...user, quota: server.config.aiQuotas.userDailyTokens || null },
+          project: { ...project, quota: server.config.aiQuotas.projectDailyTokens || null }
+        }, requestId);
+      }
+    },
+    {
+      name: 'ai:threads',
+      description: 'List the shared AI threads in the current project, most recently active first.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: async (_args, { client, requestId }) => {
+        const threads = await server.storage.listAiThreads(client.projectId!);
+        server.sendResponse(client, {
+          success: true,
+          threads: threads.map(threadSummary)
+        }, requestId);
+      }
+    },
+    {
+      name: 'ai:thread',
+      description: 'Get every message in a shared AI thread.',
+      inputSchema: {
+        type: 'object',
+        properties: { threadId: { type: 'string', minLength: 1 } },
+        required: ['threadId']
+      },
+      requiresProject: true,
+      handler: async ({ threadId }: { threadId: string }, { client, requestId }) => {
+        const projectId = client.projectId!;
+        const thread = await server.storage.getAiThread(projectId, threadId);
+        if (!thread) {
+          server.sendError(client, 'not_found', `AI thread ${threadId} not found`, requestId);
+          return;
+        }
+        const messages = await server.storage.listAiMessages(projectId, threadId);
+        server.sendResponse(client, { success: true, thread: threadSummary(thread), messages: messages.map(toWire) }, requestId);
+      }
+    },
+    {
+      name: 'ai:apply_suggestion',
+      description: 'Apply a code block from a shared AI reply to a file as a regular edit made by you. Replaces the whole file unless a character range is given.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          messageId: { type: 'string', minLength: 1, description: 'AI reply containing the suggestion' },
+          suggestion: { type: 'integer', minimum: 0, description: 'Which code block of the reply to apply (default 0)' },
+          fileId: fileIdSchema,
+          range: {
+            type: 'object',
+            description: 'Characters [start, end) of the current text to replace',
+            properties: {
+              start: { type: 'integer', minimum: 0 },
+              end: { type: 'integer', minimum: 0 }
+            },
+            required: ['start', 'end']
+          },
+          revision: { type: 'integer', minimum: 0, description: 'Revision the range refers to; rejected if the file has changed since' }
+        },
+        required: ['messageId', 'fileId']
+      },
+      requiresProject: true,
+      requiredRole: 'editor',
+      rateLimit: 'edit',
+      handler: async (args: {
+        messageId: string;
+        suggestion?: number;
+        fileId: string;
+        range?: { start: number; end: number };
+        revision?: number;
+      }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const { messageId } = args;
+        const fileId = server.documents.resolve(projectId, args.fileId) ?? args.fileId; // Follow renames
+        const index = args.suggestion ?? 0;
+
+        const message = await server.storage.getAiMessage(projectId, messageId);
+        if (!message || message.role !== 'assistant') {
+          server.sendError(client, 'not_found', `AI reply ${messageId} not found`, requestId);
+          return;
+        }
+        const suggestion = extractSuggestions(message.content)[index];
+        if (!suggestion) {
+          server.sendError(client, 'not_found', `AI reply ${messageId} has no suggestion ${index}`, requestId);
+          return;
+        }
+        const document = server.documents.get(projectId, fileId);
+        if (!document) {
+          server.sendError(client, 'not_found', `File ${fileId} is not open in project ${projectId}`, requestId);
+          return;
+        }
+        if (args.revision !== undefined && args.revision !== document.revision) {
+          server.sendError(client, 'conflict', `${fileId} has changed since revision ${args.revision}`, requestId, { fileId, revision: document.revision });
+          return;
+        }
+
+        const { start, end } = args.range ?? { start: 0, end: document.content.length };
+        let code = suggestion.code;
+        if (!args.range && document.content.endsWith('\n') && !code.endsWith('\n')) {
+          code += '\n'; // Code blocks never end in a newline; keep the file's
+        }
+        if (document.content.slice(start, end) === code) {
+          server.sendError(client, 'conflict', `Suggestion ${index} is already applied to ${fileId}`, requestId);
+          return;
+        }
+
+        let applied;
+        try {
+          applied = server.documents.replaceRange(projectId, fileId, start, end, code, client.userId);
+        } catch (error) {
+          if (error instanceof EditConflictError) {
+            server.sendError(client, 'conflict', error.message, requestId, { fileId, revision: error.currentRevision });
+            return;
+          }
+          throw error;
+        }
+        log.info('Applied AI suggestion', { projectId, messageId, suggestion: index, fileId, revision: applied.revision });
+
+        // Same event as any other edit, attributed to whoever accepted the suggestion
+        server.broadcast(projectId, {
+          type: 'edit_applied',
+          payload: {
+            fileId,
+            changeData: applied.changeData,
+            revision: applied.revision,
+            sourceUserId: client.userId,
+            sourceUserName: client.userName,
+            aiSuggestion: { threadId: message.threadId, messageId, suggestion: index }
+          }
+        }, client);
+
+        server.sendResponse(client, {
+          success: true,
+          fileId,
+          revision: applied.revision,
+          changeData: applied.changeData
+        }, requestId);
+      }
+    }
+  ];
+}
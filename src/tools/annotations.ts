@@ -0,0 +1,180 @@
+import { v4 as uuidv4 } from 'uuid';
+import { hasRole } from '../access.js';
+import { describeAnnotation, lineRange } from '../annotations.js';
+import { StoredAnnotation } from '../storage/index.js';
+import { Client, ServerContext } from '../types.js';
+import { fileIdSchema } from './files.js';
+import { ToolDefinition } from './registry.js';
+import { JsonSchema } from './schema.js';
+
+const annotationIdSchema: JsonSchema = { type: 'string', minLength: 1, description: 'ID of the annotation' };
+const bodySchema: JsonSchema = { type: 'string', minLength: 1, description: 'Comment text' };
+
+// Annotation with its anchor as lines of the file's current text
+function toWire(server: ServerContext, annotation: StoredAnnotation) {
+  const document = server.documents.get(annotation.projectId, annotation.fileId);
+  return describeAnnotation(annotation, document?.content ?? '');
+}
+
+// Look up an annotation in the caller's project. Sends an error and returns undefined if there is none.
+function findAnnotation(server: ServerContext, client: Client, annotationId: string, requestId?: string) {
+  const annotation = server.annotations.get(client.projectId!, annotationId);
+  if (!annotation) {
+    server.sendError(client, 'not_found', `Annotation ${annotationId} not found`, requestId);
+  }
+  return annotation;
+}
+
+export function createAnnotationTools(server: ServerContext): ToolDefinition[] {
+  return [
+    {
+      name: 'annotation:add',
+      description: 'Comment on a range of lines in a file for review. The annotation follows those lines as the file is edited. Everyone gets annotation_added.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          startLine: { type: 'integer', minimum: 0, description: 'First annotated line, 0-based' },
+          endLine: { type: 'integer', minimum: 0, description: 'Last annotated line, inclusive' },
+          body: bodySchema
+        },
+        required: ['fileId', 'startLine', 'endLine', 'body']
+      },
+      requiresProject: true,
+      rateLimit: 'chat',
+      handler: (args: { fileId: string; startLine: number; endLine: number; body: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const body = args.body.trim();
+        if (body === '') {
+          server.sendError(client, 'invalid_arguments', 'Annotation body must not be empty', requestId);
+          return;
+        }
+        const fileId = server.documents.resolve(projectId, args.fileId);
+        const document = fileId === undefined ? undefined : server.documents.get(projectId, fileId);
+        if (!document) {
+          server.sendError(client, 'not_found', `File ${args.fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+        const range = lineRange(document.content, args.startLine, args.endLine);
+        if (!range) {
+          server.sendError(client, 'invalid_arguments', `Lines ${args.startLine}-${args.endLine} are not in ${document.fileId}`, requestId, {
+            fileId: document.fileId,
+            revision: document.revision
+          });
+          return;
+        }
+
+        const annotation: StoredAnnotation = {
+          id: uuidv4(),
+          projectId,
+          fileId: document.fileId,
+          ...range,
+          revision: document.revision,
+          userId: client.userId,
+          userName: client.userName,
+          body,
+          createdAt: new Date(server.now()).toISOString(),
+          replies: []
+        };
+        server.annotations.add(annotation);
+        log.info('Added annotation', { projectId, fileId: document.fileId, annotationId: annotation.id });
+
+        const payload = toWire(server, annotation);
+        server.sendResponse(client, { success: true, annotation: payload }, requestId);
+        server.broadcast(projectId, { type: 'annotation_added', payload: { annotation: payload } });
+      }
+    },
+    {
+      name: 'annotation:reply',
+      description: 'Reply to an annotation. Everyone gets annotation_replied.',
+      inputSchema: {
+        type: 'object',
+        properties: { annotationId: annotationIdSchema, body: bodySchema },
+        required: ['annotationId', 'body']
+      },
+      requiresProject: true,
+      rateLimit: 'chat',
+      handler: ({ annotationId, body }: { annotationId: string; body: string }, { client, requestId }) => {
+        const text = body.trim();
+        if (text === '') {
+          server.sendError(client, 'invalid_arguments', 'Reply body must not be empty', requestId);
+          return;
+        }
+        const annotation = findAnnotation(server, client, annotationId, requestId);
+        if (!annotation) return;
+
+        const reply = {
+          id: uuidv4(),
+          userId: client.userId,
+          userName: client.userName,
+          body: text,
+          timestamp: new Date(server.now()).toISOString()
+        };
+        server.annotations.reply(annotation, reply);
+
+        server.sendResponse(client, { success: true, annotationId, reply }, requestId);
+        server.broadcast(annotation.projectId, {
+          type: 'annotation_replied',
+          payload: { annotationId, fileId: annotation.fileId, reply }
+        });
+      }
+    },
+    {
+      name: 'annotation:resolve',
+      description: 'Resolve an annotation, or reopen it with resolved: false. Its author and editors can. Everyone gets annotation_resolved.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          annotationId: annotationIdSchema,
+          resolved: { type: 'boolean', description: 'False to reopen a resolved annotation (default true)' }
+        },
+        required: ['annotationId']
+      },
+      requiresProject: true,
+      handler: ({ annotationId, resolved = true }: { annotationId: string; resolved?: boolean }, { client, requestId }) => {
+        const annotation = findAnnotation(server, client, annotationId, requestId);
+        if (!annotation) return;
+        if (annotation.userId !== client.userId && !hasRole(client.role, 'editor')) {
+          server.sendError(client, 'forbidden', 'Only the author or an editor can resolve this annotation', requestId);
+          return;
+        }
+
+        if (resolved !== (annotation.resolvedAt !== undefined)) {
+          server.annotations.resolve(annotation, resolved ? { userId: client.userId, userName: client.userName } : undefined);
+          server.broadcast(annotation.projectId, {
+            type: 'annotation_resolved',
+            payload: {
+              annotationId,
+              fileId: annotation.fileId,
+              resolved,
+              userId: client.userId,
+              userName: client.userName,
+              timestamp: new Date(server.now()).toISOString()
+            }
+          });
+        }
+        server.sendResponse(client, { success: true, annotation: toWire(server, annotation) }, requestId);
+      }
+    },
+    {
+      name: 'annotation:list',
+      description: "List the project's annotations, or one file's, oldest first, with their lines in the current text and their replies.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          includeResolved: { type: 'boolean', description: 'Include resolved annotations (default false)' }
+        }
+      },
+      requiresProject: true,
+      handler: ({ fileId, includeResolved = false }: { fileId?: string; includeResolved?: boolean }, { client, requestId }) => {
+        const projectId = client.projectId!;
+        const currentId = fileId === undefined ? undefined : server.documents.resolve(projectId, fileId) ?? fileId;
+        const annotations = server.annotations.list(projectId, currentId)
+          .filter((annotation) => includeResolved || annotation.resolvedAt === undefined)
+          .map((annotation) => toWire(server, annotation));
+        server.sendResponse(client, { success: true, annotations }, requestId);
+      }
+    }
+  ];
+}
@@ -0,0 +1,248 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClientMessages, MAX_CHAT_MESSAGE_LENGTH } from '../protocol.js';
+import { ChatMention, StoredChatMessage } from '../storage/index.js';
+import { Client, ServerContext } from '../types.js';
+import { ToolCall, ToolDefinition } from './registry.js';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+// Chat message as sent to clients
+function toWire(message: StoredChatMessage) {
+  return {
+    id: message.id,
+    userId: message.userId,
+    userName: message.userName,
+    message: message.message,
+    timestamp: message.timestamp,
+    parentId: message.parentId,
+    mentions: message.mentions,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Project members mentioned as @userName in a message (case-insensitive), excluding the author
+async function findMentions(server: ServerContext, projectId: string, authorId: string, text: string): Promise<ChatMention[]> {
+  if (!text.includes('@')) return [];
+  const members = await server.storage.listMembers(projectId);
+  return members
+    .filter((member) => member.userId !== authorId)
+    .filter((member) => new RegExp(`(^|\\s)@${escapeRegExp(member.userName)}(?![\\w-])`, 'i').test(text))
+    .map((member) => ({ userId: member.userId, userName: member.userName }));
+}
+
+// Send a targeted 'chat_mention' to each mentioned user's connections
+function notifyMentions(server: ServerContext, message: StoredChatMessage, mentions: ChatMention[]) {
+  for (const mention of mentions) {
+    server.sendToUser(message.projectId, mention.userId, {
+      type: 'chat_mention',
+      payload: {
+        messageId: message.id,
+        parentId: message.parentId,
+        fromUserId: message.userId,
+        fromUserName: message.userName,
+        message: message.message,
+        timestamp: message.editedAt ?? message.timestamp
+      }
+    });
+  }
+}
+
+// Shared by the 'chat_message' WebSocket message and the chat:send tool.
+// Returns the saved message, or undefined if it was rejected.
+export async function handleChatMessage(
+  server: ServerContext,
+  payload: ClientMessages['chat_message'],
+  { client, requestId, log }: ToolCall
+): Promise<StoredChatMessage | undefined> {
+  // Assumes client is authenticated
+  const projectId = client.projectId;
+  if (!projectId) {
+    log.warn('Chat message from a client not in a project');
+    server.sendError(client, 'not_in_project', 'Cannot send chat: Not currently in a project', requestId);
+    return undefined;
+  }
+  const message = payload.message;
+  if (!message || typeof message !== 'string' || message.trim() === '') {
+    log.warn('Invalid or empty chat message');
+    server.sendError(client, 'invalid_arguments', 'Invalid chat message', requestId);
+    return undefined;
+  }
+  const parentId = payload.parentId;
+  if (parentId !== undefined && typeof parentId !== 'string') {
+    server.sendError(client, 'invalid_arguments', 'Invalid parentId for chat message', requestId);
+    return undefined;
+  }
+
+  try {
+    if (parentId !== undefined) {
+      const parent = await server.storage.getChatMessage(projectId, parentId);
+      if (!parent) {
+        server.sendError(client, 'not_found', `Cannot reply: message ${parentId} not found`, requestId);
+        return undefined;
+      }
+    }
+
+    const text = message.trim();
+    const chatMessage: StoredChatMessage = {
+      id: uuidv4(),
+      projectId,
+      userId: client.userId,
+      userName: client.userName,
+      message: text,
+      timestamp: new Date(server.now()).toISOString(),
+      parentId,
+      mentions: await findMentions(server, projectId, client.userId, text)
+    };
+    await server.storage.appendChatMessage(chatMessage);
+
+    log.info('Chat message sent', { projectId, messageId: chatMessage.id, length: text.length, mentions: chatMessage.mentions.length });
+    // Broadcast new_chat_message to everyone in the project (including sender)
+    server.broadcast(projectId, {
+      type: 'new_chat_message',
+      payload: toWire(chatMessage)
+    });
+    notifyMentions(server, chatMessage, chatMessage.mentions);
+    return chatMessage;
+  } catch (error) {
+    log.error('Failed to save chat message', { projectId, error });
+    server.sendError(client, 'internal_error', 'Failed to send chat message', requestId);
+    return undefined;
+  }
+}
+
+// Look up a message the caller is allowed to change. Sends an error and
+// returns undefined otherwise.
+async function findOwnMessage(server: ServerContext, client: Client, messageId: string, requestId?: string) {
+  const message = await server.storage.getChatMessage(client.projectId!, messageId);
+  if (!message || message.deletedAt) {
+    server.sendError(client, 'not_found', `Message ${messageId} not found`, requestId);
+    return undefined;
+  }
+  if (message.userId !== client.userId) {
+    server.sendError(client, 'forbidden', 'Only the author can change this message', requestId);
+    return undefined;
+  }
+  return message;
+}
+
+export function createChatTools(server: ServerContext): ToolDefinition[] {
+  return [
+    {
+      name: 'chat:send',
+      description: 'Send a chat message to everyone in the current project, optionally as a reply to another message.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          message: { type: 'string', minLength: 1, maxLength: MAX_CHAT_MESSAGE_LENGTH, description: 'Message text. @userName mentions notify that user.' },
+          parentId: { type: 'string', description: 'ID of the message this replies to' }
+        },
+        required: ['message']
+      },
+      requiresProject: true,
+      rateLimit: 'chat',
+      handler: async (args: ClientMessages['chat_message'], call) => {
+        const { client, requestId } = call;
+        const message = await handleChatMessage(server, args, call);
+        if (message) {
+          server.sendResponse(client, { success: true, message: toWire(message) }, requestId);
+        }
+      }
+    },
+    {
+      name: 'chat:history',
+      description: 'Page backwards through the project chat, newest last. Pass parentId to read a thread.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          before: { type: 'string', description: 'Only return messages older than this message ID' },
+          parentId: { type: 'string', description: 'Only return replies to this message' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_LIMIT }
+        }
+      },
+      requiresProject: true,
+      handler: async (args: { before?: string; parentId?: string; limit?: number }, { client, requestId }) => {
+        const limit = args.limit ?? DEFAULT_HISTORY_LIMIT;
+        // Fetch one extra message to find out whether there is more to page through
+        const messages = await server.storage.listChatMessages(client.projectId!, {
+          before: args.before,
+          parentId: args.parentId,
+          limit: limit + 1
+        });
+        const hasMore = messages.length > limit;
+        server.sendResponse(client, {
+          success: true,
+          messages: messages.slice(hasMore ? 1 : 0).map(toWire),
+          hasMore
+        }, requestId);
+      }
+    },
+    {
+      name: 'chat:edit',
+      description: 'Edit one of your own chat messages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          messageId: { type: 'string', minLength: 1 },
+          message: { type: 'string', minLength: 1, maxLength: MAX_CHAT_MESSAGE_LENGTH, description: 'New message text' }
+        },
+        required: ['messageId', 'message']
+      },
+      requiresProject: true,
+      rateLimit: 'chat',
+      handler: async ({ messageId, message }: { messageId: string; message: string }, { client, requestId }) => {
+        const text = message.trim();
+        if (text === '') {
+          server.sendError(client, 'invalid_arguments', 'Invalid chat message', requestId);
+          return;
+        }
+        const existing = await findOwnMessage(server, client, messageId, requestId);
+        if (!existing) return;
+
+        const previouslyMentioned = new Set(existing.mentions.map((mention) => mention.userId));
+        const edited: StoredChatMessage = {
+          ...existing,
+          message: text,
+          mentions: await findMentions(server, existing.projectId, client.userId, text),
+          editedAt: new Date(server.now()).toISOString()
+        };
+        await server.storage.updateChatMessage(edited);
+
+        server.broadcast(edited.projectId, { type: 'chat_message_edited', payload: toWire(edited) });
+        // Only people mentioned for the first time get a notification
+        notifyMentions(server, edited, edited.mentions.filter((mention) => !previouslyMentioned.has(mention.userId)));
+        server.sendResponse(client, { success: true, message: toWire(edited) }, requestId);
+      }
+    },
+    {
+      name: 'chat:delete',
+      description: 'Delete one of your own chat messages. Replies to it are kept.',
+      inputSchema: {
+        type: 'object',
+        properties: { messageId: { type: 'string', minLength: 1 } },
+        required: ['messageId']
+      },
+      requiresProject: true,
+      rateLimit: 'chat',
+      handler: async ({ messageId }: { messageId: string }, { client, requestId }) => {
+        const existing = await findOwnMessage(server, client, messageId, requestId);
+        if (!existing) return;
+
+        const deletedAt = new Date(server.now()).toISOString();
+        const deleted: StoredChatMessage = { ...existing, message: '', mentions: [], deletedAt };
+        await server.storage.updateChatMessage(deleted);
+
+        server.broadcast(deleted.projectId, {
+          type: 'chat_message_deleted',
+          payload: { id: deleted.id, deletedAt }
+        });
+        server.sendResponse(client, { success: true, messageId }, requestId);
+      }
+    }
+  ];
+}
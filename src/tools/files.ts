@@ -0,0 +1,370 @@
+import { hasRole } from '../access.js';
+import { EditConflictError, PatchObject, revertChange } from '../documents.js';
+import { Client, ServerContext } from '../types.js';
+import { ToolDefinition } from './registry.js';
+import { JsonSchema } from './schema.js';
+
+export const fileIdSchema: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Identifier of the file within the project'
+};
+
+const patchArraySchema: JsonSchema = {
+  type: 'array',
+  description: 'diff-match-patch patch objects',
+  items: {
+    type: 'object',
+    properties: {
+      diffs: {
+        type: 'array',
+        items: { type: 'array', prefixItems: [{ type: 'integer', enum: [-1, 0, 1] }, { type: 'string' }] }
+      },
+      start1: { type: ['integer', 'null'], minimum: 0 },
+      start2: { type: ['integer', 'null'], minimum: 0 },
+      length1: { type: 'integer', minimum: 0 },
+      length2: { type: 'integer', minimum: 0 }
+    },
+    required: ['diffs', 'start1', 'start2', 'length1', 'length2']
+  }
+};
+
+// Connections in a project on this node
+function projectClients(server: ServerContext, projectId: string): Client[] {
+  return Array.from(server.projects.get(projectId) ?? [])
+    .map((clientId) => server.clients.get(clientId))
+    .filter((client): client is Client => client !== undefined);
+}
+
+export function createFileTools(server: ServerContext): ToolDefinition[] {
+  return [
+    {
+      name: 'file:list',
+      description: "List the project's files with their revision, length in characters and how many connections have each open.",
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: (_args, { client, requestId }) => {
+        server.sendResponse(client, { success: true, files: server.documents.list(client.projectId!) }, requestId);
+      }
+    },
+    {
+      name: 'file:create',
+      description: 'Add a file to the project, optionally with initial contents. Everyone gets file_created.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          content: { type: 'string', description: 'Initial contents (default empty)' }
+        },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      requiredRole: 'editor',
+      handler: ({ fileId, content = '' }: { fileId: string; content?: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const document = server.documents.create(projectId, fileId, content);
+        if (!document) {
+          server.sendError(client, 'already_exists', `File ${fileId} already exists in project ${projectId}`, requestId);
+          return;
+        }
+        log.info('Created file', { projectId, fileId });
+        server.sendResponse(client, { success: true, fileId, revision: document.revision }, requestId);
+
+        server.broadcast(projectId, {
+          type: 'file_created',
+          payload: {
+            fileId,
+            revision: document.revision,
+            userId: client.userId,
+            userName: client.userName
+          }
+        }, client);
+      }
+    },
+    {
+      name: 'file:rename',
+      description: "Rename or move a file. Its history, annotations and everyone's open editors and cursors move with it; edits still sent to the old ID are applied to the renamed file. Everyone gets file_renamed.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          newFileId: { ...fileIdSchema, description: 'New identifier of the file within the project' }
+        },
+        required: ['fileId', 'newFileId']
+      },
+      requiresProject: true,
+      requiredRole: 'editor',
+      handler: async ({ fileId, newFileId }: { fileId: string; newFileId: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        if (!server.documents.get(projectId, fileId)) {
+          server.sendError(client, 'not_found', `File ${fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+        const document = server.documents.rename(projectId, fileId, newFileId);
+        if (!document) {
+          server.sendError(client, 'already_exists', `File ${newFileId} already exists in project ${projectId}`, requestId);
+          return;
+        }
+        server.annotations.renameFile(projectId, fileId, newFileId);
+        await server.storage.renameDocument(projectId, fileId, newFileId);
+
+        // Cursors in the old file are now in the new one
+        projectClients(server, projectId).forEach((participant) => {
+          if (participant.presence?.fileId === fileId) {
+            participant.presence.fileId = newFileId;
+          }
+        });
+
+        log.info('Renamed file', { projectId, fileId, newFileId });
+        server.sendResponse(client, { success: true, fileId, newFileId, revision: document.revision }, requestId);
+
+        server.broadcast(projectId, {
+          type: 'file_renamed',
+          payload: {
+            fileId,
+            newFileId,
+            revision: document.revision,
+            userId: client.userId,
+            userName: client.userName
+          }
+        }, client);
+      }
+    },
+    {
+      name: 'file:delete',
+      description: 'Delete a file from the project along with its annotations, closing it for everyone. Everyone gets file_deleted.',
+      inputSchema: {
+        type: 'object',
+        properties: { fileId: fileIdSchema },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      requiredRole: 'editor',
+      handler: async ({ fileId }: { fileId: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const document = server.documents.delete(projectId, fileId);
+        if (!document) {
+          server.sendError(client, 'not_found', `File ${fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+        server.annotations.deleteFile(projectId, fileId);
+        await server.storage.deleteDocument(projectId, fileId);
+
+        // Nobody's cursor can be in a file that no longer exists
+        projectClients(server, projectId).forEach((participant) => {
+          const presence = participant.presence;
+          if (presence?.fileId === fileId) {
+            presence.fileId = undefined;
+            presence.cursor = undefined;
+            presence.selections = [];
+            presence.viewport = undefined;
+          }
+        });
+
+        log.info('Deleted file', { projectId, fileId, revision: document.revision });
+        server.sendResponse(client, { success: true, fileId }, requestId);
+
+        server.broadcast(projectId, {
+          type: 'file_deleted',
+          payload: {
+            fileId,
+            userId: client.userId,
+            userName: client.userName
+          }
+        }, client);
+      }
+    },
+    {
+      name: 'edit:send',
+      description: 'Apply a diff-match-patch edit to a shared file. Returns the new revision.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          changeData: patchArraySchema,
+          baseRevision: { type: 'integer', minimum: 0, description: 'Revision the patch was made against' }
+        },
+        required: ['fileId', 'changeData']
+      },
+      requiresProject: true,
+      requiredRole: 'editor',
+      rateLimit: 'edit',
+      handler: (args: { fileId: string; changeData: PatchObject[]; baseRevision?: number }, { client, requestId, log }) => {
+        const { fileId, changeData, baseRevision } = args;
+        const projectId = client.projectId!;
+        log.debug('Received edit', { projectId, fileId, baseRevision });
+
+        // Files are added with file:create or file:open, never by editing them
+        if (!server.documents.snapshot(projectId, fileId)) {
+          server.sendError(client, 'not_found', `File ${fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+
+        // Apply against the server copy, rebasing over any edits the sender had not seen yet
+        let applied;
+        try {
+          applied = server.documents.applyEdit(projectId, fileId, changeData, client.userId, baseRevision);
+        } catch (error) {
+          if (error instanceof EditConflictError) {
+            log.warn('Rejected edit', { projectId, fileId, error: error.message });
+            server.sendError(client, 'conflict', error.message, requestId, { fileId, revision: error.currentRevision });
+            return;
+          }
+          throw error;
+        }
+
+        // Broadcast the 'edit_applied' event to other clients in the same project
+        server.broadcast(projectId, {
+          type: 'edit_applied',
+          payload: {
+            fileId: applied.fileId, // Differs from the sender's if the file was renamed under it
+            changeData: applied.changeData, // Patch as applied to the server copy
+            revision: applied.revision,
+            sourceUserId: client.userId,
+            sourceUserName: client.userName
+          }
+        }, client); // Exclude the sender
+
+        // Acknowledge with the new revision so the sender can base its next patch on it
+        server.sendResponse(client, {
+          success: true,
+          fileId: applied.fileId,
+          revision: applied.revision,
+          rebased: applied.rebased,
+          changeData: applied.rebased ? applied.changeData : undefined
+        }, requestId);
+      }
+    },
+    {
+      name: 'file:open',
+      description: 'Open a shared file and get its current contents and revision. Editors can open a file that does not exist yet to create it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          content: { type: 'string', description: 'Initial contents, used only if nobody has edited the file yet (editors only)' }
+        },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      handler: ({ fileId, content }: { fileId: string; content?: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const canEdit = hasRole(client.role, 'editor');
+        const isNew = !server.documents.get(projectId, server.documents.resolve(projectId, fileId) ?? fileId);
+        // Viewers can open existing files but neither create files nor supply their contents
+        if (isNew && !canEdit) {
+          server.sendError(client, 'not_found', `File ${fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+        const initialContent = canEdit ? content : undefined;
+        const snapshot = server.documents.open(projectId, fileId, client.id, initialContent);
+        log.info('Opened file', { projectId, fileId, revision: snapshot.revision });
+        server.sendResponse(client, { success: true, ...snapshot }, requestId);
+
+        // Opening a file nobody has seen adds it to the project
+        if (isNew) {
+          server.broadcast(projectId, {
+            type: 'file_created',
+            payload: { fileId, revision: snapshot.revision, userId: client.userId, userName: client.userName }
+          }, client);
+        }
+
+        server.broadcast(projectId, {
+          type: 'file_opened',
+          payload: {
+            fileId: snapshot.fileId,
+            userId: client.userId,
+            userName: client.userName
+          }
+        }, client);
+      }
+    },
+    {
+      name: 'file:snapshot',
+      description: 'Get the current contents and revision of a shared file.',
+      inputSchema: {
+        type: 'object',
+        properties: { fileId: fileIdSchema },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      handler: ({ fileId }: { fileId: string }, { client, requestId }) => {
+        const snapshot = server.documents.snapshot(client.projectId!, fileId);
+        if (!snapshot) {
+          server.sendError(client, 'not_found', `File ${fileId} is not open in project ${client.projectId}`, requestId);
+          return;
+        }
+        server.sendResponse(client, { success: true, ...snapshot }, requestId);
+      }
+    },
+    {
+      name: 'file:revision',
+      description: 'Get the contents of a file as they were at a past revision, with who made that revision and when.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          revision: { type: 'integer', minimum: 0, description: 'Revision to reconstruct; 0 is the contents the file was created with' }
+        },
+        required: ['fileId', 'revision']
+      },
+      requiresProject: true,
+      handler: async ({ fileId, revision }: { fileId: string; revision: number }, { client, requestId }) => {
+        const projectId = client.projectId!;
+        const resolvedId = server.documents.resolve(projectId, fileId) ?? fileId;
+        const document = server.documents.get(projectId, resolvedId);
+        if (!document) {
+          server.sendError(client, 'not_found', `File ${fileId} not found in project ${projectId}`, requestId);
+          return;
+        }
+        if (revision > document.revision) {
+          server.sendError(client, 'not_found', `File ${fileId} is only at revision ${document.revision}`, requestId, { fileId: resolvedId, revision: document.revision });
+          return;
+        }
+
+        // Undo the changes made since, latest first. The change that produced the revision names its author.
+        const changes = await server.storage.listRevisions(projectId, resolvedId, Math.max(0, revision - 1));
+        const author = revision > 0 ? changes.find((change) => change.revision === revision) : undefined;
+        const undone = changes.filter((change) => change.revision > revision && change.revision <= document.revision);
+        if ((revision > 0 && !author) || undone.length !== document.revision - revision) {
+          server.sendError(client, 'not_found', `History of ${fileId} at revision ${revision} is not available`, requestId);
+          return;
+        }
+        const content = undone.reduceRight((text, change) => revertChange(text, change.ops), document.content);
+        server.sendResponse(client, {
+          success: true,
+          fileId: resolvedId,
+          revision,
+          currentRevision: document.revision,
+          content,
+          userId: author?.userId,
+          timestamp: author?.timestamp
+        }, requestId);
+      }
+    },
+    {
+      name: 'file:close',
+      description: 'Stop tracking a shared file as open.',
+      inputSchema: {
+        type: 'object',
+        properties: { fileId: fileIdSchema },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      handler: (args: { fileId: string }, { client, requestId }) => {
+        const fileId = server.documents.resolve(client.projectId!, args.fileId) ?? args.fileId;
+        if (server.documents.close(client.projectId!, fileId, client.id)) {
+          server.broadcast(client.projectId!, {
+            type: 'file_closed',
+            payload: {
+              fileId: fileId,
+              userId: client.userId,
+              userName: client.userName
+            }
+          }, client);
+        }
+        server.sendResponse(client, { success: true, fileId }, requestId);
+      }
+    }
+  ];
+}
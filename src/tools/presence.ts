@@ -0,0 +1,201 @@
+import { presenceSnapshot } from '../presence.js';
+import { Client, CursorPosition, ServerContext, TextRange, Viewport } from '../types.js';
+import { JsonSchema } from './schema.js';
+import { fileIdSchema } from './files.js';
+import { ToolDefinition } from './registry.js';
+
+const MAX_SELECTIONS = 100; // Multi-cursor editing can have many
+
+const positionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    line: { type: 'integer', minimum: 0 },
+    column: { type: 'integer', minimum: 0 }
+  },
+  required: ['line', 'column']
+};
+
+const selectionsSchema: JsonSchema = {
+  type: 'array',
+  maxItems: MAX_SELECTIONS,
+  description: 'Selected ranges; an empty array clears the selection',
+  items: {
+    type: 'object',
+    properties: { start: positionSchema, end: positionSchema },
+    required: ['start', 'end']
+  }
+};
+
+const viewportSchema: JsonSchema = {
+  type: 'object',
+  description: 'Lines visible in the editor, 0-based and inclusive',
+  properties: {
+    firstLine: { type: 'integer', minimum: 0 },
+    lastLine: { type: 'integer', minimum: 0 }
+  },
+  required: ['firstLine', 'lastLine']
+};
+
+interface PresenceUpdate {
+  fileId: string;
+  cursor?: CursorPosition;
+  selections?: TextRange[];
+  viewport?: Viewport;
+}
+
+interface CursorThrottle {
+  lastSentAt: number;
+  timer?: NodeJS.Timeout; // Trailing broadcast of the latest position
+}
+
+const position = ({ line, column }: CursorPosition): CursorPosition => ({ line, column });
+
+export function createPresenceTools(server: ServerContext): ToolDefinition[] {
+  // Cursor moves are coalesced: each client's position is broadcast at most once
+  // per interval, and a burst of moves ends with the latest position
+  const throttles = new WeakMap<Client, CursorThrottle>();
+
+  // Broadcast cursor_moved with the client's latest presence to others in its project
+  const broadcastCursor = (client: Client) => {
+    const presence = client.presence;
+    if (!client.projectId || !presence?.fileId) return; // Left the project in the meantime
+    server.broadcast(client.projectId, {
+      type: 'cursor_moved',
+      payload: {
+        fileId: presence.fileId,
+        position: presence.cursor,
+        selections: presence.selections,
+        viewport: presence.viewport,
+        clientId: client.id,
+        sourceUserId: client.userId,
+        sourceUserName: client.userName
+      }
+    }, client); // Exclude the sender
+  };
+
+  // Remember the client's new presence and schedule its broadcast
+  const updatePresence = (client: Client, update: PresenceUpdate) => {
+    server.presence.touch(client);
+    const presence = client.presence!;
+    const fileId = server.documents.resolve(client.projectId!, update.fileId) ?? update.fileId; // The file may have been renamed
+    const switchedFile = presence.fileId !== fileId;
+    presence.fileId = fileId;
+    // A cursor, selection or viewport from the previous file means nothing in this one
+    if (update.cursor || switchedFile) presence.cursor = update.cursor && position(update.cursor);
+    if (update.selections || switchedFile) {
+      presence.selections = (update.selections ?? []).map(({ start, end }) => ({ start: position(start), end: position(end) }));
+    }
+    if (update.viewport || switchedFile) {
+      presence.viewport = update.viewport && { firstLine: update.viewport.firstLine, lastLine: update.viewport.lastLine };
+    }
+
+    let throttle = throttles.get(client);
+    if (!throttle) {
+      throttle = { lastSentAt: 0 };
+      throttles.set(client, throttle);
+    }
+    if (throttle.timer) return; // The pending broadcast will pick up this update
+
+    const wait = throttle.lastSentAt + server.config.cursorBroadcastIntervalMs - server.now();
+    if (wait <= 0) {
+      throttle.lastSentAt = server.now();
+      broadcastCursor(client);
+    } else {
+      const pending = throttle;
+      pending.timer = setTimeout(() => {
+        pending.timer = undefined;
+        pending.lastSentAt = server.now();
+        broadcastCursor(client);
+      }, wait);
+    }
+  };
+
+  return [
+    {
+      name: 'presence:update',
+      description: 'Share your active file, cursor, selections and visible lines with the rest of the project. Switching files clears whatever you leave out.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          cursor: positionSchema,
+          selections: selectionsSchema,
+          viewport: viewportSchema
+        },
+        required: ['fileId']
+      },
+      requiresProject: true,
+      rateLimit: false, // Coalesced instead of rejected
+      handler: (args: PresenceUpdate, { client, requestId }) => {
+        if (args.viewport && args.viewport.lastLine < args.viewport.firstLine) {
+          server.sendError(client, 'invalid_arguments', 'Invalid viewport: lastLine is before firstLine', requestId);
+          return;
+        }
+        updatePresence(client, args);
+        // No response, like cursor:update
+      }
+    },
+    {
+      name: 'cursor:update',
+      description: 'Share your cursor position in a file with the rest of the project.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileId: fileIdSchema,
+          position: positionSchema,
+          selections: selectionsSchema
+        },
+        required: ['fileId', 'position']
+      },
+      requiresProject: true,
+      rateLimit: false, // Coalesced instead of rejected
+      handler: ({ fileId, position, selections }: { fileId: string; position: CursorPosition; selections?: TextRange[] }, { client }) => {
+        updatePresence(client, { fileId, cursor: position, selections });
+        // No response typically needed for cursor updates, it's fire-and-forget
+      }
+    },
+    {
+      name: 'presence:snapshot',
+      description: "Everyone's active file, cursor, selections, visible lines and status (active, idle or away) in the current project.",
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: (_args, { client, requestId }) => {
+        server.sendResponse(client, { success: true, presence: presenceSnapshot(server, client.projectId!) }, requestId);
+      }
+    },
+    {
+      name: 'presence:follow',
+      description: "Follow a collaborator: their active file, cursor and visible lines arrive as follow_update messages whenever they move, until you unfollow or they leave.",
+      inputSchema: {
+        type: 'object',
+        properties: { userId: { type: 'string', minLength: 1, description: 'User to follow' } },
+        required: ['userId']
+      },
+      requiresProject: true,
+      handler: ({ userId }: { userId: string }, { client, requestId }) => {
+        if (userId === client.userId) {
+          server.sendError(client, 'bad_request', 'You cannot follow yourself', requestId);
+          return;
+        }
+        const sessions = presenceSnapshot(server, client.projectId!).filter((entry) => entry.userId === userId);
+        if (sessions.length === 0) {
+          server.sendError(client, 'not_found', `User ${userId} is not in this project`, requestId);
+          return;
+        }
+        client.following = userId;
+        server.sendResponse(client, { success: true, following: userId, presence: sessions }, requestId);
+      }
+    },
+    {
+      name: 'presence:unfollow',
+      description: 'Stop following a collaborator.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: (_args, { client, requestId }) => {
+        const following = client.following;
+        client.following = undefined;
+        server.sendResponse(client, { success: true, stoppedFollowing: following }, requestId);
+      }
+    }
+  ];
+}
@@ -0,0 +1,229 @@
+import { PROJECT_ROLES, resolveJoinRole } from '../access.js';
+import { connectionsOf, describeProjectUsers, kickFromProject, sessionCount } from '../membership.js';
+import { presenceSnapshot } from '../presence.js';
+import { ProjectRole, ServerContext } from '../types.js';
+import { ToolDefinition } from './registry.js';
+import { JsonSchema } from './schema.js';
+
+const userIdSchema: JsonSchema = { type: 'string', minLength: 1, description: 'User to manage' };
+const roleSchema: JsonSchema = { type: 'string', enum: PROJECT_ROLES, description: 'Role in the project' };
+
+// Open files in a project along with the users that have each one open
+export function describeOpenFiles(server: ServerContext, projectId: string) {
+  return server.documents.listOpen(projectId).map((file) => ({
+    fileId: file.fileId,
+    revision: file.revision,
+    users: file.clientIds
+      .map((clientId) => server.clients.get(clientId))
+      .filter((openedBy) => openedBy !== undefined)
+      .map((openedBy) => ({ userId: openedBy.userId, userName: openedBy.userName }))
+  }));
+}
+
+// True if demoting this user would leave the project without an owner
+async function isLastOwner(server: ServerContext, projectId: string, userId: string): Promise<boolean> {
+  const owners = (await server.storage.listMembers(projectId)).filter((member) => member.role === 'owner');
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+export function createProjectTools(server: ServerContext): ToolDefinition[] {
+  return [
+    {
+      name: 'project:join',
+      description: 'Join a collaboration project. Returns your role and the files currently open and who has them open.',
+      inputSchema: {
+        type: 'object',
+        properties: { projectId: { type: 'string', minLength: 1, description: 'Project to join' } },
+        required: ['projectId']
+      },
+      requiresProject: false,
+      exclusive: true,
+      handler: async ({ projectId }: { projectId: string }, { client, requestId, log }) => {
+        const role = await resolveJoinRole(server.storage, client, projectId);
+        if (!role) {
+          log.warn('Denied access to project', { projectId });
+          server.sendError(client, 'forbidden', `Not a member of project ${projectId}`, requestId);
+          return;
+        }
+
+        // Remove from old project if any (idempotent)
+        if (client.projectId && client.projectId !== projectId) {
+          server.leaveProject(client);
+        }
+
+        await server.loadProject(projectId);
+        await server.storage.saveProject(projectId);
+        await server.storage.saveMember({ projectId, userId: client.userId, userName: client.userName, role }, true);
+
+        // Add to new project
+        const alreadyJoined = client.projectId === projectId;
+        client.projectId = projectId;
+        client.role = role;
+        if (!server.projects.has(projectId)) {
+          server.projects.set(projectId, new Set());
+          log.info('Project created', { projectId });
+        }
+        server.projects.get(projectId)!.add(client.id); // Membership is tracked per connection
+        server.presence.touch(client);
+        server.cluster.announce();
+        const sessions = sessionCount(server, projectId, client.userId);
+
+        log.info('Joined project', { projectId, role, sessions });
+
+        // Send confirmation back to client, including who is here, what they are doing and which files are open
+        server.sendResponse(client, {
+          success: true,
+          message: `Joined project ${projectId}`,
+          role,
+          users: describeProjectUsers(server, projectId),
+          presence: presenceSnapshot(server, projectId),
+          openFiles: describeOpenFiles(server, projectId)
+        }, requestId);
+
+        if (alreadyJoined) return;
+
+        // Broadcast user_joined to others in the project, or just the new session
+        // count if the user was already here in another window
+        server.broadcast(projectId, {
+          type: sessions === 1 ? 'user_joined' : 'user_sessions_changed',
+          payload: {
+            userId: client.userId,
+            userName: client.userName,
+            role,
+            sessions
+          }
+        }, client); // Exclude sender
+      }
+    },
+    {
+      name: 'project:leave',
+      description: 'Leave the current project and close its files. Others get user_left once your last session has left.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      exclusive: true,
+      handler: (_args, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        server.leaveProject(client);
+        log.info('Left project', { projectId });
+        server.sendResponse(client, { success: true, projectId }, requestId);
+      }
+    },
+    {
+      name: 'project:members',
+      description: 'List the members of the current project with their roles and whether they are online.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: async (_args, { client, requestId }) => {
+        const projectId = client.projectId!;
+        const members = await server.storage.listMembers(projectId);
+        server.sendResponse(client, {
+          success: true,
+          members: members.map((member) => ({
+            userId: member.userId,
+            userName: member.userName,
+            role: member.role,
+            joinedAt: member.joinedAt,
+            lastSeenAt: member.lastSeenAt,
+            online: sessionCount(server, projectId, member.userId) > 0
+          }))
+        }, requestId);
+      }
+    },
+    {
+      name: 'project:invite',
+      description: 'Add a user to the current project so they can join it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          userId: userIdSchema,
+          userName: { type: 'string', minLength: 1, description: 'Display name until the user joins' },
+          role: roleSchema
+        },
+        required: ['userId']
+      },
+      requiresProject: true,
+      requiredRole: 'owner',
+      handler: async (args: { userId: string; userName?: string; role?: ProjectRole }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        if (await server.storage.getMember(projectId, args.userId)) {
+          server.sendError(client, 'already_exists', `User ${args.userId} is already a member of project ${projectId}`, requestId);
+          return;
+        }
+        const role = args.role ?? 'editor';
+        await server.storage.saveMember({ projectId, userId: args.userId, userName: args.userName ?? args.userId, role }, false);
+        log.info('Invited user to project', { projectId, invitedUserId: args.userId, role });
+        server.sendResponse(client, { success: true, userId: args.userId, role }, requestId);
+      }
+    },
+    {
+      name: 'project:kick',
+      description: 'Remove a user from the current project and disconnect them from it.',
+      inputSchema: {
+        type: 'object',
+        properties: { userId: userIdSchema },
+        required: ['userId']
+      },
+      requiresProject: true,
+      requiredRole: 'owner',
+      handler: async ({ userId }: { userId: string }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        if (userId === client.userId) {
+          server.sendError(client, 'bad_request', 'Owners cannot kick themselves', requestId);
+          return;
+        }
+        if (!(await server.storage.getMember(projectId, userId))) {
+          server.sendError(client, 'not_found', `User ${userId} is not a member of project ${projectId}`, requestId);
+          return;
+        }
+        await kickFromProject(server, projectId, userId, client);
+
+        log.info('Kicked user from project', { projectId, kickedUserId: userId });
+        server.sendResponse(client, { success: true, userId }, requestId);
+      }
+    },
+    {
+      name: 'project:set_role',
+      description: "Change a project member's role.",
+      inputSchema: {
+        type: 'object',
+        properties: { userId: userIdSchema, role: roleSchema },
+        required: ['userId', 'role']
+      },
+      requiresProject: true,
+      requiredRole: 'owner',
+      handler: async ({ userId, role }: { userId: string; role: ProjectRole }, { client, requestId, log }) => {
+        const projectId = client.projectId!;
+        const member = await server.storage.getMember(projectId, userId);
+        if (!member) {
+          server.sendError(client, 'not_found', `User ${userId} is not a member of project ${projectId}`, requestId);
+          return;
+        }
+        if (role !== 'owner' && await isLastOwner(server, projectId, userId)) {
+          server.sendError(client, 'bad_request', 'A project needs at least one owner', requestId);
+          return;
+        }
+        await server.storage.saveMember({ ...member, role }, false);
+        connectionsOf(server, projectId, userId).forEach((connection) => {
+          connection.role = role;
+        });
+        server.cluster.announce();
+
+        log.info('Changed member role', { projectId, memberUserId: userId, role });
+        server.broadcast(projectId, {
+          type: 'member_role_changed',
+          payload: { userId, userName: member.userName, role, byUserId: client.userId }
+        });
+        server.sendResponse(client, { success: true, userId, role }, requestId);
+      }
+    },
+    {
+      name: 'tools:list',
+      description: 'List every tool the server supports along with its argument schema.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: false,
+      handler: (_args, { client, requestId }) => {
+        server.sendResponse(client, { success: true, tools: server.tools.list() }, requestId);
+      }
+    }
+  ];
+}
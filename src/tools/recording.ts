@@ -0,0 +1,132 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ServerMessages } from '../protocol.js';
+import { readRecording, RECORDED_EVENTS, RecordingRange, recordingQuery, toJsonLines } from '../recording.js';
+import { StoredProjectEvent } from '../storage/index.js';
+import { Client, ServerContext } from '../types.js';
+import { JsonSchema } from './schema.js';
+import { ToolDefinition } from './registry.js';
+
+// Gaps between replayed events are scaled by the replay speed, but never longer
+// than this, so long pauses in the original session don't stall the replay
+const MAX_REPLAY_GAP_MS = 2000;
+
+const rangeProperties: Record<string, JsonSchema> = {
+  since: { type: 'string', description: 'ISO timestamp of the first event to include' },
+  until: { type: 'string', description: 'ISO timestamp of the last event to include' },
+  afterSeq: { type: 'integer', minimum: 0, description: 'Only events after this sequence number, e.g. the lastSeq of the previous page' },
+  types: {
+    type: 'array',
+    description: 'Only these event types',
+    items: { type: 'string', enum: Array.from(RECORDED_EVENTS) }
+  }
+};
+
+interface Replay {
+  id: string;
+  projectId: string;
+  timer?: NodeJS.Timeout;
+}
+
+export function createRecordingTools(server: ServerContext): ToolDefinition[] {
+  const replays = new WeakMap<Client, Replay>(); // At most one per client
+
+  const stopReplay = (client: Client, reason: ServerMessages['replay_finished']['reason']): Replay | undefined => {
+    const replay = replays.get(client);
+    if (!replay) return undefined;
+    clearTimeout(replay.timer);
+    replays.delete(client);
+    server.sendMessage(client, { type: 'replay_finished', payload: { replayId: replay.id, reason } });
+    return replay;
+  };
+
+  // Send the events one by one, keeping their original spacing divided by `speed`
+  const playFrom = (client: Client, replay: Replay, events: StoredProjectEvent[], index: number, speed: number) => {
+    if (client.projectId !== replay.projectId || !server.clients.has(client.id)) {
+      replays.delete(client); // Left the project or disconnected; nobody to tell
+      return;
+    }
+    const event = events[index];
+    server.sendMessage(client, {
+      type: 'replay_event',
+      payload: { replayId: replay.id, seq: event.seq, timestamp: event.timestamp, type: event.type, payload: event.payload }
+    });
+    if (index + 1 === events.length) {
+      stopReplay(client, 'completed');
+      return;
+    }
+    const gap = Date.parse(events[index + 1].timestamp) - Date.parse(event.timestamp);
+    replay.timer = setTimeout(() => playFrom(client, replay, events, index + 1, speed), Math.min(gap / speed, MAX_REPLAY_GAP_MS));
+  };
+
+  return [
+    {
+      name: 'recording:export',
+      description: "Export the project's recorded events (edits, chat, annotations, file changes, joins and leaves, cursor moves, shared AI replies, and who made each AI request with its provider, model and token usage) as JSON lines, oldest first. Page through long recordings with afterSeq.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...rangeProperties,
+          limit: { type: 'integer', minimum: 1, description: 'Most events to return (default and maximum 10000)' }
+        }
+      },
+      requiresProject: true,
+      handler: async (args: RecordingRange, { client, requestId }) => {
+        const query = recordingQuery(args);
+        if (typeof query === 'string') {
+          server.sendError(client, 'invalid_arguments', query, requestId);
+          return;
+        }
+        const page = await readRecording(server.storage, client.projectId!, query);
+        server.sendResponse(client, {
+          success: true,
+          events: toJsonLines(page.events),
+          count: page.events.length,
+          lastSeq: page.lastSeq,
+          more: page.more
+        }, requestId);
+      }
+    },
+    {
+      name: 'recording:replay',
+      description: "Replay the project's recorded events to you as replay_event messages, spaced as they happened divided by speed, then replay_finished. Starting another replay or recording:stop ends the current one.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...rangeProperties,
+          speed: { type: 'number', minimum: 0.1, maximum: 1000, description: 'Playback speed; 1 is real time (default), 10 is ten times faster' }
+        }
+      },
+      requiresProject: true,
+      handler: async ({ speed = 1, ...range }: RecordingRange & { speed?: number }, { client, requestId, log }) => {
+        const query = recordingQuery(range);
+        if (typeof query === 'string') {
+          server.sendError(client, 'invalid_arguments', query, requestId);
+          return;
+        }
+        const projectId = client.projectId!;
+        const page = await readRecording(server.storage, projectId, query);
+        stopReplay(client, 'replaced');
+        if (page.events.length === 0) {
+          server.sendResponse(client, { success: true, replayId: null, events: 0, more: false }, requestId);
+          return;
+        }
+
+        const replay: Replay = { id: uuidv4(), projectId };
+        replays.set(client, replay);
+        log.info('Replaying recording', { projectId, replayId: replay.id, events: page.events.length, speed });
+        server.sendResponse(client, { success: true, replayId: replay.id, events: page.events.length, lastSeq: page.lastSeq, more: page.more }, requestId);
+        replay.timer = setTimeout(() => playFrom(client, replay, page.events, 0, speed), 0);
+      }
+    },
+    {
+      name: 'recording:stop',
+      description: 'Stop your running replay.',
+      inputSchema: { type: 'object', properties: {} },
+      requiresProject: true,
+      handler: (_args, { client, requestId }) => {
+        const replay = stopReplay(client, 'stopped');
+        server.sendResponse(client, { success: true, replayId: replay?.id ?? null }, requestId);
+      }
+    }
+  ];
+}
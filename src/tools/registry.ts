@@ -0,0 +1,81 @@
+import { hasRole } from '../access.js';
+import { RateLimitKind } from '../limits.js';
+import { Logger } from '../logger.js';
+import { ErrorCode } from '../protocol.js';
+import { Client, ProjectRole } from '../types.js';
+import { JsonSchema, validateSchema } from './schema.js';
+
+// --- Tool Registry ---
+// Every MCP tool declares its arguments as a JSON Schema, whether the caller
+// must be in a project, and a handler. The registry validates arguments and
+// dispatches calls from both the WebSocket and stdio transports.
+
+export interface ToolCall {
+  client: Client;
+  requestId?: string;
+  log: Logger; // Carries the connection, user and request ids
+}
+
+// Args is what the tool's inputSchema accepts; calls are validated against it
+// before the handler runs
+export interface ToolDefinition<Args = unknown> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  requiresProject: boolean;
+  requiredRole?: ProjectRole; // Minimum role in the current project
+  exclusive?: boolean; // Later calls from the same client wait until this one finishes
+  rateLimit?: RateLimitKind | false; // Bucket each call spends from (default 'tool'); false to handle flooding itself
+  handler(args: Args, call: ToolCall): void | Promise<void>;
+}
+
+export interface ToolSummary {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  requiresProject: boolean;
+  requiredRole?: ProjectRole;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(...definitions: ToolDefinition[]) {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool '${definition.name}' is already registered`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolSummary[] {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema, requiresProject, requiredRole }) => ({
+      name,
+      description,
+      inputSchema,
+      requiresProject,
+      requiredRole
+    }));
+  }
+
+  // Check a call against the tool's requirements. Returns an error message, or
+  // undefined if the handler may run.
+  check(tool: ToolDefinition, client: Client, args: unknown): { code: ErrorCode; error: string; validationErrors?: string[] } | undefined {
+    if (tool.requiresProject && !client.projectId) {
+      return { code: 'not_in_project', error: `Cannot use ${tool.name}: Not currently in a project` };
+    }
+    if (tool.requiredRole && !hasRole(client.role, tool.requiredRole)) {
+      return { code: 'forbidden', error: `Cannot use ${tool.name}: Requires the ${tool.requiredRole} role in this project` };
+    }
+    const validationErrors = validateSchema(tool.inputSchema, args);
+    if (validationErrors.length > 0) {
+      return { code: 'invalid_arguments', error: `Invalid arguments for ${tool.name}: ${validationErrors.join('; ')}`, validationErrors };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,102 @@
+import type { AiProviderRegistry } from './ai/index.js';
+import type { AnnotationStore } from './annotations.js';
+import type { JwtPayload } from './auth.js';
+import type { Cluster } from './cluster/index.js';
+import type { DocumentStore } from './documents.js';
+import type { RateLimiter } from './limits.js';
+import type { Logger } from './logger.js';
+import type { ServerMetrics } from './metrics.js';
+import type { PresenceTracker } from './presence.js';
+import type { ErrorCode, Feature, ServerMessage, ToolResult } from './protocol.js';
+import type { SessionRecorder } from './recording.js';
+import type { ServerConfig } from './server.js';
+import type { Session } from './sessions.js';
+import type { Storage } from './storage/index.js';
+import type { ToolRegistry } from './tools/registry.js';
+
+// Shared types used by the server and its transports
+
+// The subset of a WebSocket the handlers rely on, so other transports
+// (e.g. MCP over stdio) can stand in for a real socket
+export interface ClientSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+export interface CursorPosition {
+  line: number; // 0-based
+  column: number; // 0-based
+}
+
+export interface TextRange {
+  start: CursorPosition;
+  end: CursorPosition;
+}
+
+export interface Viewport {
+  firstLine: number; // 0-based, inclusive
+  lastLine: number;
+}
+
+// Derived from how long ago the client last did anything
+export type PresenceStatus = 'active' | 'idle' | 'away';
+
+// What a client is doing in its project, as shared with the others
+export interface Presence {
+  fileId?: string; // Active file
+  cursor?: CursorPosition;
+  selections: TextRange[];
+  viewport?: Viewport;
+  status: PresenceStatus;
+  lastActiveAt: number; // ms since epoch
+}
+
+export interface Client {
+  ws: ClientSocket;
+  id: string; // Unique connection ID
+  userId: string; // Authenticated User ID
+  userName: string; // Authenticated User Name
+  isAuthenticated: boolean;
+  protocolVersion: number; // Agreed at authenticate
+  features?: Feature[]; // Agreed at authenticate; every feature if unset
+  projectId?: string; // Which project the client is in
+  role?: ProjectRole; // Role in the current project
+  projectRoles?: Record<string, ProjectRole>; // Per-project roles granted by the auth token
+  token?: Pick<JwtPayload, 'jti' | 'iat' | 'exp'>; // Access token the connection authenticated with, for expiry and revocation
+  presence?: Presence; // Shared cursor, selections and status in the current project
+  following?: string; // User whose viewport this client follows
+  exclusiveCall?: Promise<void>; // In-flight tool call that later calls must wait for (e.g. project:join)
+  session?: Session; // Resume token and replay buffer, for WebSocket clients
+}
+
+// Anything the server sends a client; see protocol.ts
+export type Message = ServerMessage;
+
+// Server state and helpers shared with tool modules
+export interface ServerContext {
+  config: ServerConfig;
+  clients: Map<string, Client>; // Map client ID to Client object
+  projects: Map<string, Set<string>>; // Map project ID to Set of client IDs
+  documents: DocumentStore;
+  annotations: AnnotationStore;
+  storage: Storage;
+  tools: ToolRegistry;
+  ai: AiProviderRegistry;
+  limits: RateLimiter;
+  log: Logger;
+  metrics: ServerMetrics;
+  cluster: Cluster;
+  presence: PresenceTracker;
+  recorder: SessionRecorder; // Appends project events to their recording
+  now(): number; // Current time in milliseconds, from the server's clock
+  loadProject(projectId: string): Promise<void>; // Restore a project's documents and annotations from storage if needed
+  broadcast(projectId: string, message: Message, excludeClient?: Client): void;
+  sendToUser(projectId: string, userId: string, message: Message): void; // Every connection of one user in a project
+  sendMessage(client: Client, message: Message): void; // One connection only, e.g. streamed chunks of a response
+  sendResponse(client: Client, payload: ToolResult, requestId?: string): void;
+  sendError(client: Client, code: ErrorCode, error: string, requestId?: string, details?: Record<string, unknown>): void;
+  leaveProject(client: Client): void; // Remove the client from its current project, if any
+}
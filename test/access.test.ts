@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveJoinRole } from '../src/access.js';
+import { MemoryStorage } from '../src/storage/index.js';
+import { Client } from '../src/types.js';
+
+function clientOf(userId: string, projectRoles?: Client['projectRoles']): Client {
+  return { userId, userName: userId, projectRoles } as Client;
+}
+
+describe('resolveJoinRole', () => {
+  it('makes the first person to join a project its owner', async () => {
+    const storage = new MemoryStorage();
+    assert.equal(await resolveJoinRole(storage, clientOf('alice'), 'demo'), 'owner');
+    assert.equal(await resolveJoinRole(storage, clientOf('bob'), 'demo'), undefined);
+    assert.equal(await resolveJoinRole(storage, clientOf('bob', { '*': 'viewer' }), 'demo'), 'viewer');
+  });
+
+  it('makes only one of two people joining a new project at once its owner', async () => {
+    const storage = new MemoryStorage();
+    const roles = await Promise.all([
+      resolveJoinRole(storage, clientOf('alice'), 'demo'),
+      resolveJoinRole(storage, clientOf('bob'), 'demo')
+    ]);
+    assert.deepEqual(roles, ['owner', undefined]);
+    assert.deepEqual((await storage.listMembers('demo')).map((member) => member.userId), ['alice']);
+  });
+});
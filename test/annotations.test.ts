@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnnotationStore } from '../src/annotations.js';
+import { DocumentRevision, MAX_HISTORY } from '../src/documents.js';
+import { StoredAnnotation } from '../src/storage/index.js';
+
+// Keeping annotation anchors on their text across edits and restarts
+
+function annotation(start: number, end: number, revision: number): StoredAnnotation {
+  return {
+    id: 'note',
+    projectId: 'demo',
+    fileId: 'main.ts',
+    start,
+    end,
+    revision,
+    userId: 'alice',
+    userName: 'Alice',
+    body: 'Rename this',
+    createdAt: new Date().toISOString(),
+    replies: []
+  };
+}
+
+// A change that inserts `text` at `index` of a file `length` characters long
+function insertion(revision: number, index: number, text: string, length: number): DocumentRevision {
+  return { revision, ops: [index, [1, text], length - index], userId: 'bob', timestamp: new Date().toISOString() };
+}
+
+describe('AnnotationStore', () => {
+  it('moves anchors over the history saved since', () => {
+    const store = new AnnotationStore();
+    const history = [insertion(4, 0, 'ab', 20), insertion(5, 0, 'c', 22)];
+    store.loadProject('demo', [annotation(10, 12, 3)], [{ fileId: 'main.ts', content: 'x'.repeat(23), revision: 5, history }]);
+
+    const [loaded] = store.list('demo');
+    assert.deepEqual([loaded.start, loaded.end, loaded.revision], [13, 15, 5]);
+  });
+
+  it('leaves anchors saved before the history starts where they were', () => {
+    const store = new AnnotationStore();
+    const history = [insertion(5, 0, 'c', 22)]; // Revision 4 is no longer kept
+    store.loadProject('demo', [annotation(10, 12, 3)], [{ fileId: 'main.ts', content: 'x'.repeat(23), revision: 5, history }]);
+
+    const [loaded] = store.list('demo');
+    assert.deepEqual([loaded.start, loaded.end, loaded.revision], [10, 12, 5]);
+  });
+
+  it('saves anchors that did not move before their revision leaves the history', () => {
+    const saved: number[] = [];
+    const store = new AnnotationStore((changed) => saved.push(changed.revision));
+    store.loadProject('demo', [], []);
+    store.add(annotation(0, 5, 0));
+
+    let length = 10;
+    for (let revision = 1; revision <= MAX_HISTORY; revision++) {
+      store.applyChange('demo', 'main.ts', insertion(revision, length, 'x', length));
+      length += 1;
+    }
+
+    // Saved when added, then again before the history stops reaching back to the last save
+    assert.deepEqual(saved, [0, MAX_HISTORY / 2, MAX_HISTORY]);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { InProcessPubSub } from '../src/cluster/index.js';
+import { CollabClient, ServerError } from '../src/sdk/index.js';
+import { MemoryStorage } from '../src/storage/index.js';
+import { ManualClock, startTestServer, TestServer } from '../src/testing.js';
+
+// Two servers sharing storage and a pub/sub bus, as nodes sharing a database
+// and Redis would, with a client on each
+
+describe('cluster', () => {
+  let first: TestServer;
+  let second: TestServer;
+  let alice: CollabClient; // On the first server
+  let bob: CollabClient; // On the second
+  let secondStopped = false;
+  before(async () => {
+    const bus = new InProcessPubSub();
+    const storage = new MemoryStorage();
+    const clock = new ManualClock();
+    first = await startTestServer({ pubsub: bus.connect(), storage, clock });
+    second = await startTestServer({ pubsub: bus.connect(), storage, clock });
+    alice = await first.connect('alice');
+    bob = await second.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo'); // The first member owns the project
+    await bob.joinProject('demo');
+  });
+  after(async () => {
+    await first.stop();
+    if (!secondStopped) await second.stop();
+  });
+
+  it('tells members on other servers who joined', async () => {
+    const joined = await alice.waitFor('user_joined', (event) => event.payload.userId === 'bob');
+    assert.equal(joined.payload.sessions, 1);
+  });
+
+  it('delivers edits to members on other servers', async () => {
+    const opened = await alice.openFile('main.ts', 'const x = 1;\n');
+    const edit = await alice.editText('main.ts', opened.content, 'const x = 2;\n', opened.revision);
+
+    const applied = await bob.waitFor('edit_applied', (event) => event.payload.fileId === 'main.ts');
+    assert.equal(applied.payload.sourceUserId, 'alice');
+    assert.equal(applied.payload.revision, edit.revision);
+  });
+
+  it('shares presence across servers', async () => {
+    bob.notify('presence:update', { fileId: 'main.ts', cursor: { line: 0, column: 6 } });
+    const moved = await alice.waitFor('cursor_moved', (event) => event.payload.sourceUserId === 'bob');
+    assert.deepEqual(moved.payload.position, { line: 0, column: 6 });
+
+    const { presence } = await alice.call('presence:snapshot');
+    assert.deepEqual(presence.map((entry) => entry.userId).sort(), ['alice', 'bob']);
+  });
+
+  it('delivers chat to members on other servers', async () => {
+    const sent = await bob.sendChat('Hello from the other server');
+    const received = await alice.waitFor('new_chat_message', (event) => event.payload.id === sent.message.id);
+    assert.equal(received.payload.userId, 'bob');
+  });
+
+  it('removes a user kicked on another server from the project', async () => {
+    await alice.call('project:kick', { userId: 'bob' });
+
+    const kicked = await bob.waitFor('project_kicked');
+    assert.equal(kicked.payload.byUserId, 'alice');
+    await assert.rejects(bob.sendChat('Still here?'), (error) => error instanceof ServerError && error.code === 'not_in_project');
+    await alice.waitFor('user_left', (event) => event.payload.userId === 'bob');
+  });
+
+  it('says the users of a server that shuts down have left', async () => {
+    const carol = await second.connect('carol', { projectRoles: { '*': 'viewer' } });
+    await carol.joinProject('demo');
+    await alice.waitFor('user_joined', (event) => event.payload.userId === 'carol');
+
+    await second.stop();
+    secondStopped = true;
+    const left = await alice.waitFor('user_left', (event) => event.payload.userId === 'carol');
+    assert.equal(left.payload.sessions, 0);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DocumentStore, EditConflictError, makePatches, revertChange } from '../src/documents.js';
+
+// Rebasing concurrent edits on the server copy of a file
+
+function storeWith(content: string): DocumentStore {
+  const store = new DocumentStore();
+  store.create('demo', 'main.ts', content);
+  return store;
+}
+
+function edit(store: DocumentStore, from: string, to: string, baseRevision: number) {
+  return store.applyEdit('demo', 'main.ts', makePatches(from, to), 'alice', baseRevision);
+}
+
+describe('DocumentStore.applyEdit', () => {
+  const base = 'HEADER\nline1\nline2\nline3\nline4\n';
+
+  it('rebases edits to different parts of the file', () => {
+    const store = storeWith(base);
+    edit(store, base, base.replace('line1', 'LINE1'), 0);
+    const applied = edit(store, base, base.replace('line4', 'LINE4'), 0);
+
+    assert.equal(applied.rebased, true);
+    assert.equal(store.get('demo', 'main.ts')!.content, 'HEADER\nLINE1\nline2\nline3\nLINE4\n');
+  });
+
+  it('rejects an edit to text a concurrent edit deleted', () => {
+    const store = storeWith(base);
+    edit(store, base, base.replace('line2\n', ''), 0);
+
+    assert.throws(() => edit(store, base, base.replace('line2', 'LINE2'), 0), EditConflictError);
+    assert.equal(store.get('demo', 'main.ts')!.content, 'HEADER\nline1\nline3\nline4\n');
+    // The deletion arrives as "2\nline"; an edit to the start of line2 still overlaps it
+    assert.throws(() => edit(store, base, base.replace('line2', 'LIne2'), 0), EditConflictError);
+  });
+
+  it('rejects deleting text a concurrent edit inserted into', () => {
+    const store = storeWith(base);
+    edit(store, base, base.replace('line2', 'line2 and more'), 0);
+
+    assert.throws(() => edit(store, base, base.replace('line2\nline3\n', ''), 0), EditConflictError);
+  });
+
+  it('puts text inserted at the same place after the text inserted first', () => {
+    const store = storeWith(base);
+    edit(store, base, base.replace('line3\n', 'first\nline3\n'), 0);
+    edit(store, base, base.replace('line3\n', 'second\nline3\n'), 0);
+
+    assert.equal(store.get('demo', 'main.ts')!.content, 'HEADER\nline1\nline2\nfirst\nsecond\nline3\nline4\n');
+  });
+
+  it('rejects a patch that does not match its base revision', () => {
+    const store = storeWith(base);
+    assert.throws(() => edit(store, 'something else\n', 'something new\n', 0), EditConflictError);
+  });
+
+  it('keeps history without the unchanged text', () => {
+    const store = storeWith(base);
+    edit(store, base, base.replace('line3', 'LINE3'), 0);
+    const [change] = store.get('demo', 'main.ts')!.history;
+
+    assert.ok(JSON.stringify(change.ops).length < base.length);
+    assert.equal(revertChange(store.get('demo', 'main.ts')!.content, change.ops), base);
+  });
+});
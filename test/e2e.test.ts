@@ -0,0 +1,734 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { PassThrough } from 'stream';
+import WebSocket from 'ws';
+import { parseRateLimits } from '../src/limits.js';
+import { CollabClient, ServerError } from '../src/sdk/index.js';
+import { MemoryStorage } from '../src/storage/index.js';
+import { ManualClock, startTestServer, TestServer } from '../src/testing.js';
+
+// End-to-end tests: real connections to an in-process server, with a mock AI
+// provider and a clock the tests move by hand
+
+// A connection without the SDK, recording every message the server sends
+async function openSocket(url: string) {
+  const ws = new WebSocket(url);
+  const messages: any[] = [];
+  ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+  await new Promise((resolve) => ws.once('open', resolve));
+  return { ws, messages };
+}
+
+// Resolve once check() passes, polling every few milliseconds
+async function until(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('authentication', () => {
+  let harness: TestServer;
+  before(async () => {
+    harness = await startTestServer({ config: { authTimeoutMs: 200 } });
+  });
+  after(() => harness.stop());
+
+  it('accepts a valid token and negotiates the protocol', async () => {
+    const alice = await harness.connect('alice', { userName: 'Alice' });
+    assert.equal(alice.session.userId, 'alice');
+    assert.equal(alice.session.userName, 'Alice');
+    assert.equal(alice.session.protocolVersion, 2);
+    assert.ok(alice.session.features.includes('chat'));
+    await alice.close();
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    await assert.rejects(
+      CollabClient.connect(harness.url, { token: 'eyJhbGciOiJIUzI1NiJ9.eyJ1c2VySWQiOiJtYWxsb3J5In0.bad' }),
+      (error) => error instanceof ServerError && error.code === 'auth_failed'
+    );
+  });
+
+  it('rejects an expired token', async () => {
+    const token = harness.token({ userId: 'bob', userName: 'Bob' }, -10);
+    await assert.rejects(
+      CollabClient.connect(harness.url, { token }),
+      (error) => error instanceof ServerError && error.code === 'auth_failed'
+    );
+  });
+
+  it('closes connections that never authenticate', async () => {
+    const ws = new WebSocket(harness.url);
+    const code = await new Promise<number>((resolve) => ws.once('close', resolve));
+    assert.equal(code, 1008);
+  });
+});
+
+describe('startup', () => {
+  it('refuses revoked tokens from the first connection', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveRevocation({ userId: 'mallory', revokedAt: new Date(Date.now() + 60000).toISOString() });
+    const harness = await startTestServer({ storage });
+    try {
+      await assert.rejects(harness.connect('mallory'), (error) => error instanceof ServerError && error.code === 'auth_failed');
+    } finally {
+      await harness.stop();
+    }
+  });
+
+  it('does not start when the revocations cannot be read', async () => {
+    const storage = new MemoryStorage();
+    storage.listRevocations = () => Promise.reject(new Error('database is down'));
+    await assert.rejects(startTestServer({ storage }), /Could not load token revocations: database is down/);
+  });
+});
+
+describe('projects', () => {
+  let harness: TestServer;
+  let alice: CollabClient;
+  let bob: CollabClient;
+  before(async () => {
+    harness = await startTestServer({ aiReply: 'Use a map here.' });
+    alice = await harness.connect('alice');
+    bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo'); // The first member owns the project
+    await bob.joinProject('demo');
+  });
+  after(() => harness.stop());
+
+  it('tells members when someone joins', async () => {
+    const joined = await alice.waitFor('user_joined', (event) => event.payload.userId === 'bob');
+    assert.equal(joined.payload.userName, 'bob');
+  });
+
+  it('refuses tools that need a project before joining one', async () => {
+    const carol = await harness.connect('carol');
+    await assert.rejects(carol.sendChat('hello'), (error) => error instanceof ServerError && error.code === 'not_in_project');
+  });
+
+  it('broadcasts edits to everyone but the sender', async () => {
+    const opened = await alice.openFile('main.ts', 'const x = 1;\n');
+    await bob.openFile('main.ts');
+
+    const edit = await alice.editText('main.ts', opened.content, 'const x = 2;\n', opened.revision);
+    assert.equal(edit.revision, opened.revision + 1);
+    assert.equal(edit.rebased, false);
+
+    const applied = await bob.waitFor('edit_applied', (event) => event.payload.fileId === 'main.ts');
+    assert.equal(applied.payload.sourceUserId, 'alice');
+    assert.equal(applied.payload.revision, edit.revision);
+
+    await alice.ping(); // Anything broadcast to alice would have arrived by now
+    assert.equal(alice.eventsOf('edit_applied').length, 0);
+    assert.equal((await bob.openFile('main.ts')).content, 'const x = 2;\n');
+  });
+
+  it('rejects edits based on a revision the server does not have', async () => {
+    await assert.rejects(
+      bob.editText('main.ts', 'const x = 2;\n', 'const x = 3;\n', 999),
+      (error) => error instanceof ServerError && error.code === 'conflict'
+    );
+  });
+
+  it('rejects edits to files that do not exist', async () => {
+    await assert.rejects(
+      bob.editText('missing.ts', '', 'hello\n', 0),
+      (error) => error instanceof ServerError && error.code === 'not_found'
+    );
+    const { files } = await bob.call('file:list', {});
+    assert.equal(files.some((file: { fileId: string }) => file.fileId === 'missing.ts'), false);
+  });
+
+  it('delivers chat messages to the project', async () => {
+    const sent = await bob.sendChat('Looks good');
+    const received = await alice.waitFor('new_chat_message', (event) => event.payload.id === sent.message.id);
+    assert.equal(received.payload.message, 'Looks good');
+    assert.equal(received.payload.userId, 'bob');
+  });
+
+  it('rejects chat messages that are too long', async () => {
+    const tooLong = 'x'.repeat(10001);
+    await assert.rejects(bob.sendChat(tooLong), (error) => error instanceof ServerError && error.code === 'invalid_arguments');
+
+    const sent = await bob.sendChat('Short');
+    await assert.rejects(
+      bob.call('chat:edit', { messageId: sent.message.id, message: tooLong }),
+      (error) => error instanceof ServerError && error.code === 'invalid_arguments'
+    );
+  });
+
+  it('streams AI answers from the provider', async () => {
+    const response = await alice.call('ai:request', { prompt: 'How should I store these?', fileId: 'main.ts' });
+    assert.equal(response.provider, 'mock');
+    assert.equal(response.result, 'Use a map here.');
+    assert.equal(response.usage.estimated, false);
+
+    const chunks = alice.eventsOf('ai_chunk').map((event) => event.payload.text);
+    assert.equal(chunks.join(''), 'Use a map here.');
+
+    const request = harness.ai.requests.at(-1)!;
+    assert.equal(request.model, 'mock-model');
+    assert.match(request.messages.at(-1)!.content, /How should I store these\?/);
+  });
+
+  it('lets members leave the project', async () => {
+    const left = await bob.leaveProject();
+    assert.equal(left.projectId, 'demo');
+
+    const gone = await alice.waitFor('user_left', (event) => event.payload.userId === 'bob');
+    assert.equal(gone.payload.sessions, 0);
+    await assert.rejects(bob.sendChat('Still here?'), (error) => error instanceof ServerError && error.code === 'not_in_project');
+  });
+});
+
+describe('token expiry', () => {
+  let harness: TestServer;
+  before(async () => {
+    harness = await startTestServer({ config: { tokenCheckIntervalMs: 20, tokenExpiryWarningMs: 60000 } });
+  });
+  after(() => harness.stop());
+
+  it('warns before the token expires and closes the connection after', async () => {
+    const alice = await harness.connect('alice');
+    const closed = alice.waitForClose();
+
+    harness.clock.advance(3600 * 1000 - 30000); // 30 seconds left
+    const warning = await alice.waitFor('token_expiring');
+    assert.ok(Date.parse(warning.payload.expiresAt) > harness.clock.now());
+
+    harness.clock.advance(31000);
+    assert.equal(await closed, 4002);
+  });
+});
+
+describe('AI provider timeouts', () => {
+  let harness: TestServer;
+  before(async () => {
+    harness = await startTestServer({ aiReply: 'This answer never finishes.', aiProvider: { idleTimeoutMs: 100 } });
+  });
+  after(() => harness.stop());
+
+  it('fails a shared request when the provider stops streaming', async () => {
+    const alice = await harness.connect('alice');
+    const bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo');
+    await bob.joinProject('demo');
+    harness.ai.stall = true;
+
+    await assert.rejects(
+      alice.call('ai:request', { prompt: 'Explain this', shared: true }),
+      (error) => error instanceof ServerError && error.code === 'upstream_error' && /stopped responding/.test(error.message)
+    );
+    const failed = await bob.waitFor('ai_thread_reply_failed');
+    assert.match(failed.payload.error, /stopped responding/);
+  });
+});
+
+describe('AI suggestions', () => {
+  let harness: TestServer;
+  before(async () => {
+    harness = await startTestServer({ aiReply: 'Try this:\n```ts\nconst x = new Map();\n```' });
+  });
+  after(() => harness.stop());
+
+  it('applies a suggestion to a file that was renamed', async () => {
+    const alice = await harness.connect('alice');
+    await alice.joinProject('demo');
+    await alice.openFile('old.ts', 'const x = {};\n');
+    const answer = await alice.call('ai:request', { prompt: 'Use a map', fileId: 'old.ts', shared: true });
+    await alice.call('file:rename', { fileId: 'old.ts', newFileId: 'new.ts' });
+
+    const applied = await alice.call('ai:apply_suggestion', { messageId: answer.messageId, fileId: 'old.ts' });
+    assert.equal(applied.fileId, 'new.ts');
+    assert.equal((await alice.openFile('new.ts')).content, 'const x = new Map();\n');
+    assert.equal((await alice.call('file:list', {})).files.some((file: { fileId: string }) => file.fileId === 'old.ts'), false);
+  });
+});
+
+describe('AI quotas', () => {
+  it('starts counting again at midnight UTC', async () => {
+    const clock = new ManualClock(Date.UTC(2030, 0, 1, 23, 58));
+    const harness = await startTestServer({ clock, config: { aiQuotas: { userDailyTokens: 1, projectDailyTokens: 0 } } });
+    try {
+      const alice = await harness.connect('alice');
+      await alice.joinProject('demo');
+      await alice.call('ai:request', { prompt: 'First question' });
+      await assert.rejects(alice.call('ai:request', { prompt: 'Second question' }), (error) => {
+        assert.ok(error instanceof ServerError);
+        assert.equal(error.code, 'quota_exceeded');
+        assert.equal(error.details?.retryAfterMs, 2 * 60000);
+        return true;
+      });
+
+      clock.advance(2 * 60000);
+      await alice.call('ai:request', { prompt: 'Second question' });
+      const usage = await alice.call('ai:usage');
+      assert.equal(usage.user.since, '2030-01-02T00:00:00.000Z');
+      assert.ok(usage.user.tokens > 0);
+    } finally {
+      await harness.stop();
+    }
+  });
+});
+
+describe('server settings', () => {
+  it('applies each server its own AI quota', async () => {
+    const strict = await startTestServer({ config: { aiQuotas: { userDailyTokens: 1, projectDailyTokens: 0 } } });
+    const relaxed = await startTestServer();
+    try {
+      for (const harness of [strict, relaxed]) {
+        const alice = await harness.connect('alice');
+        await alice.joinProject('demo');
+        await alice.call('ai:request', { prompt: 'First question' });
+      }
+
+      const limited = await strict.connect('alice');
+      await limited.joinProject('demo');
+      await assert.rejects(limited.call('ai:request', { prompt: 'Second question' }), (error) => error instanceof ServerError && error.code === 'quota_exceeded');
+      assert.equal((await limited.call('ai:usage')).user.quota, 1);
+
+      const unlimited = await relaxed.connect('alice');
+      await unlimited.joinProject('demo');
+      await unlimited.call('ai:request', { prompt: 'Second question' });
+      assert.equal((await unlimited.call('ai:usage')).user.quota, 200000);
+    } finally {
+      await strict.stop();
+      await relaxed.stop();
+    }
+  });
+});
+
+describe('resume', () => {
+  let harness: TestServer;
+  let alice: CollabClient;
+  let bob: CollabClient;
+  before(async () => {
+    harness = await startTestServer();
+    alice = await harness.connect('alice');
+    bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo');
+    await bob.joinProject('demo');
+    await alice.openFile('main.ts', 'const x = 1;\n');
+  });
+  after(() => harness.stop());
+
+  it('replays the events missed while disconnected', async () => {
+    await bob.ping();
+    const lastSeq = Math.max(...bob.events.map((event) => event.seq ?? 0));
+    assert.ok(lastSeq > 0);
+    await bob.close();
+
+    const sent = await alice.sendChat('Did you see this?');
+    const { ws, messages } = await openSocket(harness.url);
+    try {
+      ws.send(JSON.stringify({ type: 'resume', payload: { resumeToken: bob.session.resumeToken, lastSeq } }));
+      await until(() => messages.some((message) => message.type === 'new_chat_message'));
+
+      const [resumed, ...replayed] = messages;
+      assert.equal(resumed.type, 'resume_success');
+      assert.equal(resumed.payload.projectId, 'demo');
+      assert.equal(resumed.payload.role, 'editor');
+      assert.equal(resumed.payload.complete, true);
+      assert.equal(resumed.payload.replayed, replayed.length);
+      assert.ok(replayed.every((event) => event.seq > lastSeq));
+      assert.equal(replayed.at(-1).payload.id, sent.message.id);
+
+      // Teammates never saw bob leave
+      await alice.ping();
+      assert.equal(alice.eventsOf('user_left').length, 0);
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('refuses unknown resume tokens', async () => {
+    const { ws, messages } = await openSocket(harness.url);
+    try {
+      ws.send(JSON.stringify({ type: 'resume', payload: { resumeToken: 'not-a-session', protocolVersion: 2 } }));
+      await until(() => messages.length > 0);
+      assert.equal(messages[0].type, 'resume_failure');
+      assert.equal(messages[0].payload.error.code, 'resume_failed');
+    } finally {
+      ws.close();
+    }
+  });
+});
+
+describe('roles', () => {
+  let harness: TestServer;
+  let alice: CollabClient; // Owner
+  let carol: CollabClient;
+  before(async () => {
+    harness = await startTestServer();
+    alice = await harness.connect('alice');
+    carol = await harness.connect('carol');
+    await alice.joinProject('demo');
+    await alice.openFile('main.ts', 'const x = 1;\n');
+  });
+  after(() => harness.stop());
+
+  it('keeps out users who were not invited', async () => {
+    await assert.rejects(carol.joinProject('demo'), (error) => error instanceof ServerError && error.code === 'forbidden');
+  });
+
+  it('lets invited viewers follow along but not edit', async () => {
+    await alice.call('project:invite', { userId: 'carol', role: 'viewer' });
+    const joined = await carol.joinProject('demo');
+    assert.equal(joined.role, 'viewer');
+
+    const file = await carol.openFile('main.ts');
+    await assert.rejects(
+      carol.editText('main.ts', file.content, 'const x = 2;\n', file.revision),
+      (error) => error instanceof ServerError && error.code === 'forbidden'
+    );
+  });
+
+  it('does not let viewers add files by opening them', async () => {
+    await assert.rejects(carol.openFile('new.ts'), (error) => error instanceof ServerError && error.code === 'not_found');
+    const { files } = await alice.call('file:list', {});
+    assert.equal(files.some((file) => file.fileId === 'new.ts'), false);
+    await alice.ping();
+    assert.equal(alice.eventsOf('file_created').length, 0);
+  });
+
+  it('applies role changes straight away', async () => {
+    await alice.call('project:set_role', { userId: 'carol', role: 'editor' });
+    const changed = await carol.waitFor('member_role_changed');
+    assert.deepEqual([changed.payload.userId, changed.payload.role, changed.payload.byUserId], ['carol', 'editor', 'alice']);
+
+    const file = await carol.openFile('main.ts');
+    await carol.editText('main.ts', file.content, 'const x = 2;\n', file.revision);
+  });
+
+  it('keeps at least one owner', async () => {
+    await assert.rejects(
+      alice.call('project:set_role', { userId: 'alice', role: 'editor' }),
+      (error) => error instanceof ServerError && error.code === 'bad_request'
+    );
+  });
+
+  it('removes kicked members from the project', async () => {
+    await alice.call('project:kick', { userId: 'carol' });
+    const kicked = await carol.waitFor('project_kicked');
+    assert.equal(kicked.payload.byUserId, 'alice');
+
+    await assert.rejects(carol.sendChat('Still here?'), (error) => error instanceof ServerError && error.code === 'not_in_project');
+    await assert.rejects(carol.joinProject('demo'), (error) => error instanceof ServerError && error.code === 'forbidden');
+  });
+});
+
+describe('annotations', () => {
+  let harness: TestServer;
+  let alice: CollabClient;
+  let bob: CollabClient;
+  before(async () => {
+    harness = await startTestServer();
+    alice = await harness.connect('alice');
+    bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo');
+    await bob.joinProject('demo');
+  });
+  after(() => harness.stop());
+
+  it('follows its lines as the file is edited', async () => {
+    const file = await alice.openFile('main.ts', 'a\nb\nc\n');
+    const { annotation } = await alice.call('annotation:add', { fileId: 'main.ts', startLine: 1, endLine: 1, body: 'Explain b' });
+    const added = await bob.waitFor('annotation_added');
+    assert.equal(added.payload.annotation.id, annotation.id);
+
+    await bob.editText('main.ts', file.content, 'z\na\nb\nc\n', file.revision);
+    const { annotations } = await bob.call('annotation:list', { fileId: 'main.ts' });
+    assert.deepEqual(annotations.map((listed) => [listed.id, listed.startLine, listed.endLine]), [[annotation.id, 2, 2]]);
+  });
+
+  it('shares replies and resolutions', async () => {
+    const [annotation] = (await bob.call('annotation:list', {})).annotations;
+    await bob.call('annotation:reply', { annotationId: annotation.id, body: 'It counts the rows' });
+    const replied = await alice.waitFor('annotation_replied');
+    assert.equal(replied.payload.reply.body, 'It counts the rows');
+
+    await bob.call('annotation:resolve', { annotationId: annotation.id });
+    const resolved = await alice.waitFor('annotation_resolved');
+    assert.equal(resolved.payload.userId, 'bob');
+
+    assert.equal((await alice.call('annotation:list', {})).annotations.length, 0);
+    const [listed] = (await alice.call('annotation:list', { includeResolved: true })).annotations;
+    assert.equal(listed.resolvedBy, 'bob');
+    assert.equal(listed.resolvedAt, new Date(harness.clock.now()).toISOString());
+    assert.equal(listed.replies.length, 1);
+  });
+});
+
+describe('renames', () => {
+  it('applies edits sent to the old name to the renamed file', async () => {
+    const harness = await startTestServer();
+    try {
+      const alice = await harness.connect('alice');
+      const bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+      await alice.joinProject('demo');
+      await bob.joinProject('demo');
+      const file = await bob.openFile('old.ts', 'const x = 1;\n');
+
+      await alice.call('file:rename', { fileId: 'old.ts', newFileId: 'new.ts' });
+      const renamed = await bob.waitFor('file_renamed');
+      assert.deepEqual([renamed.payload.fileId, renamed.payload.newFileId], ['old.ts', 'new.ts']);
+
+      // Sent before bob heard about the rename
+      const edit = await bob.editText('old.ts', file.content, 'const x = 2;\n', file.revision);
+      assert.equal(edit.fileId, 'new.ts');
+      assert.equal((await alice.openFile('new.ts')).content, 'const x = 2;\n');
+    } finally {
+      await harness.stop();
+    }
+  });
+});
+
+describe('rate limits', () => {
+  it('rejects chat past the limit until it refills', async () => {
+    const harness = await startTestServer({ config: { rateLimits: parseRateLimits('{"chat":{"user":{"capacity":2,"perMinute":60}}}') } });
+    try {
+      const alice = await harness.connect('alice');
+      await alice.joinProject('demo');
+      await alice.sendChat('One');
+      await alice.sendChat('Two');
+
+      await assert.rejects(alice.sendChat('Three'), (error) => {
+        assert.ok(error instanceof ServerError);
+        assert.equal(error.code, 'rate_limited');
+        assert.deepEqual(error.details, { limit: 'chat', scope: 'user', retryAfterMs: 1000, retryAfter: 1 });
+        return true;
+      });
+
+      harness.clock.advance(1000);
+      await alice.sendChat('Three');
+    } finally {
+      await harness.stop();
+    }
+  });
+});
+
+describe('admin API', () => {
+  let harness: TestServer;
+  let alice: CollabClient;
+  let bob: CollabClient;
+  let adminToken: string;
+  const admin = (path: string, init: RequestInit = {}) => fetch(`${harness.webUrl}/api/admin${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' }
+  });
+  before(async () => {
+    harness = await startTestServer();
+    adminToken = harness.token({ userId: 'root', userName: 'Root', admin: true });
+    alice = await harness.connect('alice');
+    bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await alice.joinProject('demo');
+    await bob.joinProject('demo');
+  });
+  after(() => harness.stop());
+
+  it('turns away tokens without the admin claim', async () => {
+    const response = await fetch(`${harness.webUrl}/api/admin/stats`, {
+      headers: { Authorization: `Bearer ${harness.token({ userId: 'alice', userName: 'alice' })}` }
+    });
+    assert.equal(response.status, 403);
+    assert.equal((await fetch(`${harness.webUrl}/api/admin/stats`)).status, 401);
+  });
+
+  it('reports uptime by the server clock', async () => {
+    harness.clock.advance(90000);
+    const stats = await (await admin('/stats')).json();
+    assert.equal(stats.clients, 2);
+    assert.equal(stats.projects, 1);
+    assert.equal(stats.uptimeSeconds, 90);
+  });
+
+  it('lists projects with their members', async () => {
+    const project = await (await admin('/projects/demo')).json();
+    assert.deepEqual(project.members.map((member: { userId: string; role: string }) => [member.userId, member.role]), [['alice', 'owner'], ['bob', 'editor']]);
+    assert.equal((await admin('/projects/nowhere')).status, 404);
+  });
+
+  it('kicks members out of a project', async () => {
+    const response = await admin('/projects/demo/members/bob', { method: 'DELETE' });
+    assert.equal(response.status, 200);
+    await bob.waitFor('project_kicked');
+    await alice.waitFor('user_left', (event) => event.payload.userId === 'bob');
+  });
+
+  it('sends everyone in a project home', async () => {
+    await (await admin('/projects/demo/close', { method: 'POST', body: JSON.stringify({ reason: 'Maintenance' }) })).json();
+    const closed = await alice.waitFor('project_closed');
+    assert.equal(closed.payload.reason, 'Maintenance');
+    await assert.rejects(alice.sendChat('Hello?'), (error) => error instanceof ServerError && error.code === 'not_in_project');
+  });
+});
+
+describe('revocation', () => {
+  let harness: TestServer;
+  let adminToken: string;
+  before(async () => {
+    harness = await startTestServer();
+    adminToken = harness.token({ userId: 'root', userName: 'Root', admin: true });
+  });
+  after(() => harness.stop());
+
+  it("closes a revoked user's connections and refuses their tokens", async () => {
+    const mallory = await harness.connect('mallory');
+    const closed = mallory.waitForClose();
+
+    const response = await fetch(`${harness.webUrl}/api/admin/revocations`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: 'mallory' })
+    });
+    const revoked = await response.json();
+    assert.equal(revoked.disconnected, 1);
+    assert.equal(revoked.revocation.revokedAt, new Date(harness.clock.now()).toISOString());
+    assert.equal(await closed, 4003);
+    await assert.rejects(harness.connect('mallory'), (error) => error instanceof ServerError && error.code === 'auth_failed');
+
+    // Tokens issued after the revocation work again
+    harness.clock.advance(1000);
+    await (await harness.connect('mallory')).close();
+  });
+
+  it('swaps in a fresh token for the same user', async () => {
+    const alice = await harness.connect('alice');
+    harness.clock.advance(1000);
+    const reauthenticated = await alice.reauthenticate(harness.token({ userId: 'alice', userName: 'alice' }));
+    assert.equal(reauthenticated.userId, 'alice');
+    assert.equal(Date.parse(reauthenticated.expiresAt!), Math.floor(harness.clock.now() / 1000) * 1000 + 3600 * 1000);
+
+    await assert.rejects(
+      alice.reauthenticate(harness.token({ userId: 'bob', userName: 'bob' })),
+      (error) => error instanceof ServerError && error.code === 'auth_failed' && /not alice/.test(error.message)
+    );
+    await alice.ping(); // Still connected on the fresh token
+  });
+});
+
+describe('recording', () => {
+  let harness: TestServer;
+  let alice: CollabClient;
+  before(async () => {
+    harness = await startTestServer({ config: { recordSessions: true } });
+    alice = await harness.connect('alice');
+    await alice.joinProject('demo');
+    const file = await alice.openFile('main.ts', 'const x = 1;\n');
+    await alice.editText('main.ts', file.content, 'const x = 2;\n', file.revision);
+    alice.notify('presence:update', { fileId: 'main.ts', cursor: { line: 0, column: 6 } });
+    await alice.call('ai:request', { prompt: 'Private question' });
+    await alice.sendChat('Recorded');
+  });
+  after(() => harness.stop());
+
+  it("exports the project's events as JSON lines", async () => {
+    const exported = await alice.call('recording:export');
+    const events = exported.events.trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(exported.count, events.length);
+    assert.equal(exported.more, false);
+    assert.deepEqual(
+      events.map((event) => event.type).filter((type) => ['edit_applied', 'cursor_moved', 'ai_response', 'new_chat_message'].includes(type)),
+      ['edit_applied', 'cursor_moved', 'ai_response', 'new_chat_message']
+    );
+  });
+
+  it('records who made private AI requests but not what was said', async () => {
+    const exported = await alice.call('recording:export', { types: ['ai_response'] });
+    const [response] = exported.events.trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(response.payload.userId, 'alice');
+    assert.equal(response.payload.provider, 'mock');
+    assert.equal(response.payload.model, 'mock-model');
+    assert.equal(response.payload.threadId, undefined);
+    assert.doesNotMatch(JSON.stringify(response), /Private question|Mock reply/);
+  });
+
+  it('timestamps events by the server clock', async () => {
+    harness.clock.advance(60000);
+    const since = new Date(harness.clock.now()).toISOString();
+    await alice.sendChat('A minute later');
+
+    const exported = await alice.call('recording:export', { since });
+    const events = exported.events.trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepEqual(events.map((event) => [event.type, event.timestamp]), [['new_chat_message', since]]);
+  });
+
+  it('replays the events to the caller', async () => {
+    const started = await alice.call('recording:replay', { speed: 1000 });
+    const finished = await alice.waitFor('replay_finished', (event) => event.payload.replayId === started.replayId);
+    assert.equal(finished.payload.reason, 'completed');
+
+    const replayed = alice.eventsOf('replay_event').filter((event) => event.payload.replayId === started.replayId);
+    assert.equal(replayed.length, started.events);
+    assert.equal(replayed.at(-1)!.payload.type, 'new_chat_message');
+  });
+});
+
+describe('MCP over stdio', () => {
+  let harness: TestServer;
+  let input: PassThrough;
+  let replies: any[];
+  let closed: Promise<void>;
+  let nextId = 1;
+
+  // Send a JSON-RPC request and resolve with the reply to it
+  const request = async (method: string, params?: unknown) => {
+    const id = nextId++;
+    input.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    await until(() => replies.some((reply) => reply.id === id));
+    return replies.find((reply) => reply.id === id);
+  };
+  before(async () => {
+    harness = await startTestServer();
+    input = new PassThrough();
+    const output = new PassThrough();
+    replies = [];
+    let buffered = '';
+    output.on('data', (data) => {
+      const lines = (buffered + data.toString()).split('\n');
+      buffered = lines.pop()!;
+      lines.forEach((line) => replies.push(JSON.parse(line)));
+    });
+    closed = new Promise((resolve) => harness.server.attachStdio({ userId: 'cursor', userName: 'Cursor' }, resolve, { input, output }));
+  });
+  after(() => harness.stop());
+
+  it('negotiates the protocol and lists tools with MCP names', async () => {
+    const initialized = await request('initialize', { protocolVersion: '2025-03-26' });
+    assert.equal(initialized.result.protocolVersion, '2025-03-26');
+
+    const { result } = await request('tools/list');
+    assert.ok(result.tools.some((tool: { name: string }) => tool.name === 'project_join'));
+    assert.equal(result.tools.some((tool: { name: string }) => tool.name.includes(':')), false);
+  });
+
+  it('calls tools alongside WebSocket clients', async () => {
+    const joined = await request('tools/call', { name: 'project_join', arguments: { projectId: 'demo' } });
+    assert.equal(joined.result.isError, false);
+    assert.equal(JSON.parse(joined.result.content[0].text).role, 'owner');
+
+    const bob = await harness.connect('bob', { projectRoles: { '*': 'editor' } });
+    await bob.joinProject('demo');
+    await until(() => replies.some((reply) => reply.method === 'notifications/kleo/event' && reply.params.type === 'user_joined'));
+
+    const sent = await bob.sendChat('Hello from the browser');
+    await until(() => replies.some((reply) => reply.params?.payload?.id === sent.message.id));
+  });
+
+  it('reports tool errors and unknown methods', async () => {
+    const failed = await request('tools/call', { name: 'project_kick', arguments: { userId: 'cursor' } });
+    assert.equal(failed.result.isError, true);
+    assert.equal(JSON.parse(failed.result.content[0].text).error.code, 'bad_request');
+
+    assert.equal((await request('tools/call', { name: 'no_such_tool' })).error.code, -32602);
+    assert.equal((await request('resources/list')).error.code, -32601);
+  });
+
+  it('leaves when the input ends', async () => {
+    input.end();
+    await closed;
+    assert.equal(Array.from(harness.server.context.clients.values()).some((client) => client.userId === 'cursor'), false);
+  });
+});
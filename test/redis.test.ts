@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import net from 'net';
+import { after, before, describe, it } from 'node:test';
+import { RedisPubSub } from '../src/cluster/index.js';
+import { Logger } from '../src/logger.js';
+
+// The Redis pub/sub client against a stand-in server that speaks just enough
+// of the Redis protocol (RESP) for AUTH, PUBLISH and SUBSCRIBE
+
+const PASSWORD = 's3cret';
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+// Read the commands (arrays of bulk strings) at the start of buffer; returns them and what's left over
+function readCommands(buffer: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = [];
+  let offset = 0;
+  for (;;) {
+    const header = buffer.indexOf('\r\n', offset);
+    if (header === -1) break;
+    const count = parseInt(buffer.toString('utf8', offset + 1, header), 10);
+    const args: string[] = [];
+    let position = header + 2;
+    while (args.length < count) {
+      const lineEnd = buffer.indexOf('\r\n', position);
+      if (lineEnd === -1) break;
+      const length = parseInt(buffer.toString('utf8', position + 1, lineEnd), 10);
+      if (buffer.length < lineEnd + 2 + length + 2) break;
+      args.push(buffer.toString('utf8', lineEnd + 2, lineEnd + 2 + length));
+      position = lineEnd + 2 + length + 2;
+    }
+    if (args.length < count) break;
+    commands.push(args);
+    offset = position;
+  }
+  return { commands, rest: buffer.subarray(offset) };
+}
+
+class FakeRedis {
+  commands: string[][] = []; // Every command received, oldest first
+  private server = net.createServer((socket) => this.accept(socket));
+  private sockets = new Set<net.Socket>();
+  private channels = new Map<string, Set<net.Socket>>(); // channel -> subscribed connections
+  private pushes = new WeakMap<net.Socket, Promise<void>>(); // Each connection's pushes, sent in order
+  port = 0;
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(this.port, '127.0.0.1', () => {
+      this.port = (this.server.address() as net.AddressInfo).port;
+      resolve();
+    }));
+  }
+
+  subscribers(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+
+  // Cut every connection, as a Redis restart would
+  dropConnections() {
+    this.sockets.forEach((socket) => socket.destroy());
+  }
+
+  // Stop accepting connections and cut the open ones
+  stop(): Promise<void> {
+    const closed = new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.dropConnections();
+    return closed;
+  }
+
+  private accept(socket: net.Socket) {
+    this.sockets.add(socket);
+    let buffer: Buffer = Buffer.alloc(0);
+    let authenticated = false;
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.channels.forEach((subscribed) => subscribed.delete(socket));
+    });
+    socket.on('error', () => {});
+    socket.on('data', (data) => {
+      const { commands, rest } = readCommands(Buffer.concat([buffer, data]));
+      buffer = rest;
+      for (const [name, ...args] of commands) {
+        this.commands.push([name, ...args]);
+        if (name === 'AUTH') {
+          authenticated = args.at(-1) === PASSWORD;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else if (name === 'SUBSCRIBE') {
+          const [channel] = args;
+          if (!this.channels.has(channel)) this.channels.set(channel, new Set());
+          this.channels.get(channel)!.add(socket);
+          socket.write(`*3\r\n${bulk('subscribe')}${bulk(channel)}:1\r\n`);
+        } else if (name === 'PUBLISH') {
+          const [channel, message] = args;
+          const subscribed = this.channels.get(channel) ?? new Set();
+          subscribed.forEach((subscriber) => this.push(subscriber, `*3\r\n${bulk('message')}${bulk(channel)}${bulk(message)}`));
+          socket.write(`:${subscribed.size}\r\n`);
+        } else {
+          socket.write(`-ERR unknown command '${name}'\r\n`);
+        }
+      }
+    });
+  }
+
+  // Send a pub/sub message in two pieces, to check that the client puts replies back together
+  private push(socket: net.Socket, message: string) {
+    const bytes = Buffer.from(message);
+    const middle = Math.floor(bytes.length / 2);
+    const sent = (this.pushes.get(socket) ?? Promise.resolve()).then(async () => {
+      socket.write(bytes.subarray(0, middle));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (socket.writable) socket.write(bytes.subarray(middle));
+    });
+    this.pushes.set(socket, sent);
+  }
+}
+
+// Resolve once check() passes, polling every few milliseconds
+async function until(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('RedisPubSub', () => {
+  const log = new Logger('error', {}, () => {});
+  const redis = new FakeRedis();
+  let publisher: RedisPubSub;
+  let subscriber: RedisPubSub;
+  const received: string[] = [];
+  before(async () => {
+    await redis.listen();
+    const url = `redis://:${PASSWORD}@127.0.0.1:${redis.port}`;
+    publisher = new RedisPubSub(url, log);
+    subscriber = new RedisPubSub(url, log);
+    await subscriber.subscribe('events', (message) => received.push(message));
+    await until(() => redis.subscribers('events') === 1);
+  });
+  after(async () => {
+    await publisher.close();
+    await subscriber.close();
+    await redis.stop();
+  });
+
+  it('authenticates before anything else', () => {
+    assert.deepEqual(redis.commands[0], ['AUTH', PASSWORD]);
+    assert.ok(redis.commands.every(([name]) => name === 'AUTH' || name === 'SUBSCRIBE'));
+  });
+
+  it('delivers published messages to subscribers', async () => {
+    await publisher.publish('events', 'first');
+    await publisher.publish('events', 'ünïcödé ✓');
+    await publisher.publish('other', 'not subscribed');
+    await until(() => received.length === 2);
+    assert.deepEqual(received, ['first', 'ünïcödé ✓']);
+  });
+
+  it('subscribes again after reconnecting', async () => {
+    received.length = 0;
+    const sent = (command: string) => redis.commands.filter(([name]) => name === command).length;
+    const connections = sent('AUTH');
+    redis.dropConnections();
+    // Every connection is back once it has authenticated again, and the subscriber has resubscribed
+    await until(() => sent('AUTH') === 2 * connections && sent('SUBSCRIBE') === 2 && redis.subscribers('events') === 1);
+
+    await publisher.publish('events', 'after the restart');
+    await until(() => received.length === 1);
+    assert.deepEqual(received, ['after the restart']);
+  });
+
+  it('sends messages published while Redis is down once it is back', async () => {
+    await redis.stop();
+    await new Promise((resolve) => setTimeout(resolve, 20)); // Let the clients see the connections close
+    const published = publisher.publish('events', 'while down');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await redis.listen(); // Same port
+
+    await published;
+    assert.ok(redis.commands.some((command) => command.join(' ') === 'PUBLISH events while down'));
+  });
+});
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RevocationList } from '../src/revocations.js';
+import { MemoryStorage } from '../src/storage/index.js';
+import { ManualClock } from '../src/testing.js';
+
+// Forgetting revocations of tokens once they would have expired anyway
+
+describe('RevocationList', () => {
+  it('forgets token revocations after the token expires by its clock', async () => {
+    const clock = new ManualClock(Date.UTC(2030, 0, 1));
+    const storage = new MemoryStorage();
+    const revocations = new RevocationList(storage, clock.now);
+    await revocations.revoke({ jti: 'token-1', revokedAt: new Date(clock.now()).toISOString(), expiresAt: new Date(clock.now() + 60000).toISOString() });
+
+    await revocations.prune();
+    assert.equal(revocations.isRevoked({ userId: 'alice', jti: 'token-1' }), true);
+
+    clock.advance(60001);
+    await revocations.prune();
+    assert.equal(revocations.isRevoked({ userId: 'alice', jti: 'token-1' }), false);
+    assert.deepEqual(await storage.listRevocations(), []);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_HISTORY } from '../src/documents.js';
+import { MAX_RECORDING_EVENTS } from '../src/recording.js';
+import { MemoryStorage, SqliteStorage, Storage } from '../src/storage/index.js';
+
+const backends: [string, () => Storage][] = [
+  ['MemoryStorage', () => new MemoryStorage()],
+  ['SqliteStorage', () => new SqliteStorage(':memory:')]
+];
+
+for (const [name, createStorage] of backends) {
+  describe(name, () => {
+    it('adds the first member of a project only once', async () => {
+      const storage = createStorage();
+      assert.equal(await storage.addFirstMember({ projectId: 'demo', userId: 'alice', userName: 'Alice', role: 'owner' }), true);
+      assert.equal(await storage.addFirstMember({ projectId: 'demo', userId: 'bob', userName: 'Bob', role: 'owner' }), false);
+      assert.deepEqual((await storage.listMembers('demo')).map((member) => member.userId), ['alice']);
+      await storage.close();
+    });
+  });
+}
+
+describe('MemoryStorage', () => {
+  it('keeps only the latest revisions of a document', async () => {
+    const storage = new MemoryStorage();
+    for (let revision = 1; revision <= MAX_HISTORY + 10; revision++) {
+      await storage.saveDocument(
+        { projectId: 'demo', fileId: 'main.ts', content: 'x'.repeat(revision), revision },
+        { projectId: 'demo', fileId: 'main.ts', revision, ops: [revision - 1, [1, 'x']], userId: 'alice', timestamp: new Date().toISOString() }
+      );
+    }
+
+    const revisions = await storage.listRevisions('demo', 'main.ts', 0);
+    assert.equal(revisions.length, MAX_HISTORY);
+    assert.equal(revisions[0].revision, 11);
+  });
+
+  it('keeps only the latest recorded events of a project', async () => {
+    const storage = new MemoryStorage();
+    for (let index = 0; index < MAX_RECORDING_EVENTS + 10; index++) {
+      await storage.appendProjectEvent({ projectId: 'demo', type: 'new_chat_message', payload: { index }, timestamp: new Date().toISOString() });
+    }
+
+    const events = await storage.listProjectEvents('demo', { limit: MAX_RECORDING_EVENTS + 10 });
+    assert.equal(events.length, MAX_RECORDING_EVENTS);
+    assert.deepEqual(events[0].payload, { index: 10 });
+  });
+});
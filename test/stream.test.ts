@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Readable } from 'stream';
+import { describeProviderError, readServerSentEvents } from '../src/ai/stream.js';
+
+// Reading streamed provider responses that arrive in arbitrary pieces
+
+// `text` as a stream of two chunks, cut `offset` bytes in
+function splitAt(text: string, offset: number): Readable {
+  const bytes = Buffer.from(text);
+  return Readable.from([bytes.subarray(0, offset), bytes.subarray(offset)]);
+}
+
+describe('readServerSentEvents', () => {
+  it('keeps characters split across chunks whole', async () => {
+    const text = 'data: {"text":"naïve → 漢字"}\n\n';
+    const events = [];
+    for await (const event of readServerSentEvents(splitAt(text, Buffer.from('data: {"text":"naïve → 漢').length + 1))) {
+      events.push(event);
+    }
+    assert.deepEqual(events, [{ event: undefined, data: '{"text":"naïve → 漢字"}' }]);
+  });
+});
+
+describe('describeProviderError', () => {
+  it('reads error bodies split inside a character', async () => {
+    const body = JSON.stringify({ error: { message: 'Modèle indisponible' } });
+    const failure = Object.assign(new Error('Request failed'), { isAxiosError: true, response: { data: splitAt(body, body.indexOf('è') + 1) } });
+    const message = await describeProviderError(failure);
+    assert.equal(message, 'Modèle indisponible');
+  });
+});